@@ -75,6 +75,7 @@ const scatterGL = new ScatterGL(containerElement, {
     setMessage(message);
   },
   renderMode: RenderMode.POINT,
+  showSearchBox: true,
   orbitControls: {
     zoomSpeed: 1.125,
   },
@@ -94,6 +95,10 @@ document
         scatterGL.setPanMode();
       } else if (inputElement.value === 'select') {
         scatterGL.setSelectMode();
+      } else if (inputElement.value === 'lasso') {
+        scatterGL.setLassoMode();
+      } else if (inputElement.value === 'brush') {
+        scatterGL.setBrushMode();
       }
     });
   });
@@ -16,5 +16,11 @@ limitations under the License.
 module.exports = {
   preset: 'ts-jest',
   testEnvironment: 'node',
+  globals: {
+    'ts-jest': {
+      // Type-check the tests, which the library build leaves out.
+      tsConfig: 'tsconfig.test.json',
+    },
+  },
 };
 
@@ -0,0 +1,168 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {
+  ContinuousColorScale,
+  generateColorScaleArray,
+  getScaleColor,
+  makeColorScale,
+} from './color_by';
+import {Dataset, PointMetadata} from './data';
+import {categoricalPalettes} from './palettes';
+
+const RED = {r: 1, g: 0, b: 0, opacity: 1};
+const WHITE = {r: 1, g: 1, b: 1, opacity: 1};
+const BLUE = {r: 0, g: 0, b: 1, opacity: 1};
+
+function makeDataset(metadata: PointMetadata[]) {
+  return new Dataset(new Float32Array(metadata.length * 2), metadata, 2);
+}
+
+describe('makeColorScale', () => {
+  it('colors categories in order of their distinct values', () => {
+    const dataset = makeDataset([{c: 'b'}, {c: 'a'}, {c: 'b'}]);
+    const scale = makeColorScale(dataset, {field: 'c'});
+    const [first, second] = categoricalPalettes.tableau10;
+    expect(scale).toEqual({
+      type: 'categorical',
+      field: 'c',
+      categories: ['a', 'b'],
+      colors: [first, second],
+    });
+  });
+
+  it('wraps around the palette when there are more categories', () => {
+    const dataset = makeDataset([{c: 'a'}, {c: 'b'}, {c: 'c'}]);
+    const scale = makeColorScale(dataset, {
+      field: 'c',
+      palette: ['#ff0000', '#0000ff'],
+    });
+    expect(scale.colors).toEqual(['#ff0000', '#0000ff', '#ff0000']);
+  });
+
+  it('defaults numeric fields to a sequential scale over their extent', () => {
+    const dataset = makeDataset([{v: 2}, {v: 10}]);
+    const scale = makeColorScale(dataset, {field: 'v'});
+    expect(scale.type).toBe('sequential');
+    expect((scale as ContinuousColorScale).domain).toEqual([2, 10]);
+  });
+
+  it('centers a diverging domain on zero', () => {
+    const dataset = makeDataset([{v: -2}, {v: 5}]);
+    const scale = makeColorScale(dataset, {field: 'v', type: 'diverging'});
+    expect((scale as ContinuousColorScale).domain).toEqual([-5, 0, 5]);
+  });
+
+  it('throws for an unknown palette', () => {
+    const dataset = makeDataset([{v: 1}]);
+    expect(() =>
+      makeColorScale(dataset, {field: 'v', palette: 'nope'})
+    ).toThrow(/Unknown sequential palette "nope"/);
+  });
+});
+
+describe('getScaleColor', () => {
+  const dataset = makeDataset([{c: 'a'}, {c: 'b'}, {c: 'c'}]);
+
+  it('looks up categorical colors, wrapping around the palette', () => {
+    const scale = makeColorScale(dataset, {
+      field: 'c',
+      palette: ['#ff0000', '#0000ff'],
+    });
+    expect(getScaleColor(scale, 'a')).toEqual(RED);
+    expect(getScaleColor(scale, 'b')).toEqual(BLUE);
+    expect(getScaleColor(scale, 'c')).toEqual(RED);
+    expect(getScaleColor(scale, 'd')).toBeNull();
+  });
+
+  it('interpolates sequential colors between the domain ends', () => {
+    const scale = makeColorScale(dataset, {
+      field: 'v',
+      type: 'sequential',
+      palette: ['#ff0000', '#0000ff'],
+      domain: [0, 10],
+    });
+    expect(getScaleColor(scale, 0)).toEqual(RED);
+    expect(getScaleColor(scale, 10)).toEqual(BLUE);
+    expect(getScaleColor(scale, -5)).toEqual(RED);
+    expect(getScaleColor(scale, 20)).toEqual(BLUE);
+    const middle = getScaleColor(scale, 5)!;
+    expect(middle.r).toBeCloseTo(0.5);
+    expect(middle.b).toBeCloseTo(0.5);
+  });
+
+  it('maps each half of a diverging domain to half of the stops', () => {
+    const scale = makeColorScale(dataset, {
+      field: 'v',
+      type: 'diverging',
+      palette: ['#ff0000', '#ffffff', '#0000ff'],
+      domain: [-1, 0, 4],
+    });
+    expect(getScaleColor(scale, -1)).toEqual(RED);
+    expect(getScaleColor(scale, 0)).toEqual(WHITE);
+    expect(getScaleColor(scale, 4)).toEqual(BLUE);
+    const quarter = getScaleColor(scale, 2)!;
+    expect(quarter.r).toBeCloseTo(0.5);
+    expect(quarter.g).toBeCloseTo(0.5);
+    expect(quarter.b).toBeCloseTo(1);
+  });
+
+  it('returns null for missing or non-numeric values', () => {
+    const scale = makeColorScale(dataset, {
+      field: 'v',
+      type: 'sequential',
+      domain: [0, 1],
+    });
+    expect(getScaleColor(scale, undefined)).toBeNull();
+    expect(getScaleColor(scale, '')).toBeNull();
+    expect(getScaleColor(scale, 'a')).toBeNull();
+    expect(getScaleColor(scale, NaN)).toBeNull();
+  });
+});
+
+describe('generateColorScaleArray', () => {
+  it('uses the fallback color and opacity for missing values', () => {
+    const dataset = makeDataset([{v: 0}, {}, {v: 'x'}, {v: 1}]);
+    const scale = makeColorScale(dataset, {
+      field: 'v',
+      type: 'sequential',
+      palette: ['#ff0000', '#0000ff'],
+      domain: [0, 1],
+    });
+    const colors = generateColorScaleArray(
+      dataset,
+      scale,
+      'rgba(0, 0, 0, 0.5)'
+    );
+    expect(Array.from(colors)).toEqual([
+      ...[1, 0, 0, 0.5],
+      ...[0, 0, 0, 0.5],
+      ...[0, 0, 0, 0.5],
+      ...[0, 0, 1, 0.5],
+    ]);
+  });
+
+  it('uses the fallback color for values outside the categories', () => {
+    const dataset = makeDataset([{c: 'a'}, {c: 'b'}]);
+    const scale = makeColorScale(dataset, {
+      field: 'c',
+      palette: ['#ff0000'],
+      domain: ['a'],
+    });
+    const colors = generateColorScaleArray(dataset, scale, '#0000ff');
+    expect(Array.from(colors)).toEqual([1, 0, 0, 1, 0, 0, 1, 1]);
+  });
+});
@@ -0,0 +1,187 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+import {Color, parseColor} from './color';
+import {RGBA_NUM_ELEMENTS} from './constants';
+import {Dataset} from './data';
+import {
+  categoricalPalettes,
+  continuousPalettes,
+  interpolateColors,
+} from './palettes';
+
+export type ColorByType = 'categorical' | 'sequential' | 'diverging';
+
+/** Colors points by the value of a metadata field. */
+export interface ColorBy {
+  /** The metadata field to color by. */
+  field: string;
+  /**
+   * How values map to colors. Defaults to 'sequential' for numeric fields and
+   * 'categorical' otherwise.
+   */
+  type?: ColorByType;
+  /**
+   * The name of a palette in `categoricalPalettes` or `continuousPalettes`,
+   * or a list of colors: one per category, or evenly spaced color stops.
+   * Defaults to 'tableau10', 'viridis' or 'rdbu' depending on the type.
+   */
+  palette?: string | string[];
+  /**
+   * The categories in palette order, or the [min, max] of a sequential field,
+   * or the [min, mid, max] of a diverging field. Defaults to the field's
+   * distinct values, extent, or an extent centered on zero.
+   */
+  domain?: Array<number | string>;
+}
+
+export interface CategoricalColorScale {
+  type: 'categorical';
+  field: string;
+  categories: Array<number | string>;
+  /** The color of each category. */
+  colors: string[];
+}
+
+export interface ContinuousColorScale {
+  type: 'sequential' | 'diverging';
+  field: string;
+  /** The [min, max] or [min, mid, max] of the field. */
+  domain: number[];
+  /** Evenly spaced color stops over the domain. */
+  colors: string[];
+}
+
+export type ColorScale = CategoricalColorScale | ContinuousColorScale;
+
+const DEFAULT_PALETTES: {[type in ColorByType]: string} = {
+  categorical: 'tableau10',
+  sequential: 'viridis',
+  diverging: 'rdbu',
+};
+
+/** Resolves a `ColorBy` against a dataset's metadata into a color scale. */
+export function makeColorScale(dataset: Dataset, colorBy: ColorBy): ColorScale {
+  const {field} = colorBy;
+  const schema = dataset.schema[field];
+  const type =
+    colorBy.type ||
+    (schema && schema.type === 'numeric' ? 'sequential' : 'categorical');
+  const palettes =
+    type === 'categorical' ? categoricalPalettes : continuousPalettes;
+  const palette = colorBy.palette || DEFAULT_PALETTES[type];
+  const colors = typeof palette === 'string' ? palettes[palette] : palette;
+  if (!colors || colors.length === 0) {
+    throw new Error(`Unknown ${type} palette "${palette}"`);
+  }
+
+  if (type === 'categorical') {
+    const categories =
+      colorBy.domain ||
+      (schema && schema.distinctValues) ||
+      collectDistinctValues(dataset, field);
+    return {
+      type,
+      field,
+      categories,
+      colors: categories.map((_, i) => colors[i % colors.length]),
+    };
+  }
+
+  let domain = colorBy.domain as number[] | undefined;
+  if (!domain) {
+    const min = schema && schema.min !== undefined ? schema.min : 0;
+    const max = schema && schema.max !== undefined ? schema.max : 1;
+    const extent = Math.max(Math.abs(min), Math.abs(max));
+    domain = type === 'diverging' ? [-extent, 0, extent] : [min, max];
+  }
+  return {type, field, domain, colors};
+}
+
+/**
+ * Maps a value to its color in a scale, or returns null when the value is
+ * missing or not in the scale's categories.
+ */
+export function getScaleColor(
+  scale: ColorScale,
+  value: number | string | undefined
+): Color | null {
+  if (value === undefined || value === '') return null;
+  if (scale.type === 'categorical') {
+    const index = scale.categories.indexOf(value);
+    return index !== -1 ? parseColor(scale.colors[index]) : null;
+  }
+  if (typeof value !== 'number' || isNaN(value)) return null;
+  return interpolateColors(scale.colors, scalePosition(scale.domain, value));
+}
+
+/**
+ * Computes the RGBA color of every point from a color scale. Points with
+ * missing values get the fallback color, and every point gets the fallback
+ * color's opacity.
+ */
+export function generateColorScaleArray(
+  dataset: Dataset,
+  scale: ColorScale,
+  fallbackColor: string
+): Float32Array {
+  const fallback = parseColor(fallbackColor);
+  const n = dataset.pointCount;
+  const colors = new Float32Array(n * RGBA_NUM_ELEMENTS);
+
+  // Look categories up once each, rather than once per point.
+  const categoryColors = new Map<number | string, Color>();
+  if (scale.type === 'categorical') {
+    scale.categories.forEach((category, i) => {
+      categoryColors.set(category, parseColor(scale.colors[i]));
+    });
+  }
+
+  let dst = 0;
+  for (let i = 0; i < n; i++) {
+    const value = dataset.getMetadataValue(i, scale.field);
+    const c =
+      (scale.type === 'categorical'
+        ? value !== undefined && categoryColors.get(value)
+        : getScaleColor(scale, value)) || fallback;
+    colors[dst++] = c.r;
+    colors[dst++] = c.g;
+    colors[dst++] = c.b;
+    colors[dst++] = fallback.opacity;
+  }
+  return colors;
+}
+
+/** Maps a value to its [0, 1] position along a continuous domain. */
+function scalePosition(domain: number[], value: number) {
+  const position = (a: number, b: number) =>
+    b === a ? 0.5 : (value - a) / (b - a);
+  if (domain.length === 3) {
+    const [min, mid, max] = domain;
+    return value < mid ? position(min, mid) / 2 : 0.5 + position(mid, max) / 2;
+  }
+  return position(domain[0], domain[1]);
+}
+
+function collectDistinctValues(dataset: Dataset, field: string) {
+  const values = new Set<number | string>();
+  for (let i = 0; i < dataset.pointCount; i++) {
+    const value = dataset.getMetadataValue(i, field);
+    if (value !== undefined && value !== '') values.add(value);
+  }
+  return [...values];
+}
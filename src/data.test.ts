@@ -0,0 +1,243 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {
+  Dataset,
+  HighDimensionalDataset,
+  NonFiniteCoordinatesError,
+} from './data';
+
+describe('Dataset', () => {
+  it('packs points and reads them back', () => {
+    const dataset = new Dataset([
+      [0, 1],
+      [2, 3],
+    ]);
+    expect(dataset.dimensions).toBe(2);
+    expect(Array.from(dataset.positions)).toEqual([0, 1, 2, 3]);
+    expect(dataset.points).toEqual([
+      [0, 1],
+      [2, 3],
+    ]);
+  });
+
+  it('caches points until the positions change', () => {
+    const dataset = new Dataset([
+      [0, 1],
+      [2, 3],
+    ]);
+    const points = dataset.points;
+    expect(dataset.points).toBe(points);
+    dataset.updatePoints([1], [[4, 5]]);
+    expect(dataset.points).not.toBe(points);
+    expect(dataset.points[1]).toEqual([4, 5]);
+  });
+
+  it('repacks points when they are set', () => {
+    const dataset = new Dataset([
+      [0, 1],
+      [2, 3],
+    ]);
+    dataset.points = [[1, 2, 3]];
+    expect(dataset.dimensions).toBe(3);
+    expect(dataset.pointCount).toBe(1);
+    expect(Array.from(dataset.positions)).toEqual([1, 2, 3]);
+    expect(() => (dataset.points = [[NaN, 0]])).toThrow(
+      NonFiniteCoordinatesError
+    );
+  });
+
+  it('reads metadata from columns without building rows', () => {
+    const dataset = Dataset.fromTypedArray(new Float32Array(4), 2, {
+      label: ['a', 'b'],
+      value: new Float32Array([1, 2]),
+    });
+    expect(dataset.getMetadataValue(1, 'label')).toBe('b');
+    expect(dataset.getMetadataValue(0, 'value')).toBe(1);
+    expect(dataset.getMetadataValue(0, 'missing')).toBeUndefined();
+    expect(dataset.metadataKeys).toEqual(['label', 'value']);
+    expect(dataset.metadata).toEqual([
+      {label: 'a', value: 1},
+      {label: 'b', value: 2},
+    ]);
+  });
+
+  it('replaces the metadata when it is set', () => {
+    const dataset = Dataset.fromTypedArray(new Float32Array(2), 2, {
+      label: ['a'],
+    });
+    dataset.metadata = [{color: 'red'}];
+    expect(dataset.metadataKeys).toEqual(['color']);
+    expect(dataset.getMetadataValue(0, 'label')).toBeUndefined();
+    expect(dataset.schema.color.type).toBe('categorical');
+  });
+
+  it('keeps typed columns typed when appending numbers', () => {
+    const dataset = Dataset.fromTypedArray(new Float32Array(2), 2, {
+      value: new Float32Array([1]),
+    });
+    dataset.appendPoints([[1, 1]], [{value: 2}]);
+    expect(dataset.getMetadataValue(1, 'value')).toBe(2);
+  });
+
+  it('records missing values when appending to typed columns', () => {
+    const dataset = Dataset.fromTypedArray(new Float32Array(2), 2, {
+      value: new Float32Array([1]),
+    });
+    dataset.appendPoints(
+      [
+        [1, 1],
+        [2, 2],
+      ],
+      [{}, {value: 'x'}]
+    );
+    expect(dataset.getMetadataValue(0, 'value')).toBe(1);
+    expect(dataset.getMetadataValue(1, 'value')).toBeUndefined();
+    expect(dataset.getMetadataValue(2, 'value')).toBe('x');
+  });
+
+  it("appends rows without modifying the caller's metadata", () => {
+    const metadata = [{label: 'a'}];
+    const dataset = new Dataset([[0, 0]], metadata);
+    dataset.appendPoints([[1, 1]], [{label: 'b'}]);
+    expect(metadata).toEqual([{label: 'a'}]);
+    expect(dataset.getMetadataValue(1, 'label')).toBe('b');
+  });
+
+  it('adds columns for fields first seen in appended metadata', () => {
+    const columns = {value: new Float32Array([1])};
+    const dataset = Dataset.fromTypedArray(new Float32Array(2), 2, columns);
+    dataset.appendPoints([[1, 1]], {value: [2], label: ['b']});
+    expect(dataset.getMetadataValue(0, 'label')).toBeUndefined();
+    expect(dataset.getMetadataValue(1, 'label')).toBe('b');
+    expect(dataset.getMetadataValue(1, 'value')).toBe(2);
+    expect(dataset.metadataKeys).toEqual(['value', 'label']);
+    expect(Object.keys(columns)).toEqual(['value']);
+    expect(columns.value.length).toBe(1);
+  });
+
+  it('rejects out-of-range indices when updating points', () => {
+    const dataset = new Dataset([
+      [0, 0],
+      [1, 1],
+    ]);
+    expect(() => dataset.updatePoints([2], [[5, 5]])).toThrow(RangeError);
+    expect(() => dataset.updatePoints([-1], [[5, 5]])).toThrow(RangeError);
+    expect(() => dataset.updatePoints([0.5], [[5, 5]])).toThrow(RangeError);
+    expect(dataset.points).toEqual([
+      [0, 0],
+      [1, 1],
+    ]);
+  });
+
+  it('removes points and their metadata', () => {
+    const dataset = new Dataset(
+      [
+        [0, 0],
+        [1, 1],
+        [2, 2],
+      ],
+      [{label: 'a'}, {label: 'b'}, {label: 'c'}]
+    );
+    dataset.removePoints([1]);
+    expect(dataset.points).toEqual([
+      [0, 0],
+      [2, 2],
+    ]);
+    expect(dataset.getMetadataValue(1, 'label')).toBe('c');
+  });
+
+  it('rejects or drops non-finite points', () => {
+    expect(
+      () =>
+        new Dataset([
+          [0, 0],
+          [NaN, 1],
+        ])
+    ).toThrow(NonFiniteCoordinatesError);
+    const dataset = new Dataset(
+      [
+        [0, 0],
+        [NaN, 1],
+        [2, 2],
+      ],
+      [{label: 'a'}, {label: 'b'}, {label: 'c'}],
+      undefined,
+      {nonFinite: 'drop'}
+    );
+    expect(dataset.droppedIndices).toEqual([1]);
+    expect(dataset.getMetadataValue(1, 'label')).toBe('c');
+  });
+});
+
+/** Returns vectors spread along their first dimensions, most along the first. */
+function makeVectors(n: number, dimensions: number) {
+  const vectors: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    const vector: number[] = [];
+    for (let d = 0; d < dimensions; d++) {
+      vector.push(Math.sin(i * (d + 1)) * (dimensions - d));
+    }
+    vectors.push(vector);
+  }
+  return vectors;
+}
+
+describe('HighDimensionalDataset', () => {
+  it('projects vectors onto the first principal components', () => {
+    const dataset = new HighDimensionalDataset(makeVectors(20, 4));
+    expect(dataset.components).toEqual([0, 1, 2]);
+    expect(dataset.dimensions).toBe(3);
+    expect(dataset.pointCount).toBe(20);
+    const [first, second] = dataset.pca.explainedVariance;
+    expect(first).toBeGreaterThanOrEqual(second);
+  });
+
+  it('shows only 2 components of 2-dimensional vectors', () => {
+    const dataset = new HighDimensionalDataset(makeVectors(20, 2));
+    expect(dataset.components).toEqual([0, 1]);
+    expect(dataset.dimensions).toBe(2);
+  });
+
+  it('rejects invalid components', () => {
+    const vectors = makeVectors(20, 4);
+    expect(
+      () => new HighDimensionalDataset(vectors, [], {components: [0, 7]})
+    ).toThrow(RangeError);
+    expect(
+      () => new HighDimensionalDataset(vectors, [], {components: [0]})
+    ).toThrow(RangeError);
+    const dataset = new HighDimensionalDataset(vectors);
+    expect(() => dataset.setComponents([1, -1])).toThrow(RangeError);
+  });
+
+  it('switches between components', () => {
+    const dataset = new HighDimensionalDataset(makeVectors(20, 4));
+    dataset.setComponents([1, 0]);
+    expect(dataset.dimensions).toBe(2);
+    expect(dataset.points[0]).toEqual([
+      dataset.positions[0],
+      dataset.positions[1],
+    ]);
+  });
+
+  it('rejects out-of-range indices when updating vectors', () => {
+    const dataset = new HighDimensionalDataset(makeVectors(20, 4));
+    const vector = [[1, 2, 3, 4]];
+    expect(() => dataset.updatePoints([20], vector)).toThrow(RangeError);
+    expect(() => dataset.updatePoints([-1], vector)).toThrow(RangeError);
+  });
+});
@@ -15,6 +15,9 @@ See the License for the specific language governing permissions and
 limitations under the License.
 ==============================================================================*/
 
+import {MetadataSchema, inferMetadataSchema} from './metadata_schema';
+import {PCAParams, PCAResult, computePCA, projectOntoComponents} from './pca';
+
 /*
  * Metadata for each point. Each metadata is a set of key/value pairs
  * where the value can be a string or a number.
@@ -46,33 +49,746 @@ export type Point2D = [number, number];
 export type Point3D = [number, number, number];
 export type Points = Array<Point2D | Point3D>;
 
+/**
+ * Columnar point metadata, keyed by field name. Each column holds one value per
+ * point, so large datasets can carry metadata without allocating one object
+ * per point.
+ */
+export interface MetadataColumns {
+  [key: string]: ArrayLike<number | string | undefined>;
+}
+
 const DIMENSIONALITY_ERROR_MESSAGE =
   'Points must be an array of either 2 or 3 dimensional number arrays';
+const VECTOR_DIMENSIONALITY_ERROR_MESSAGE =
+  'Vectors must all have the same number of dimensions, at least 2';
+const POSITIONS_LENGTH_ERROR_MESSAGE =
+  'Positions length must be a multiple of the number of dimensions';
+/** The number of offending indices listed in a non-finite error message. */
+const MAX_REPORTED_INDICES = 10;
+
+/** Thrown when points have NaN or infinite coordinates. */
+export class NonFiniteCoordinatesError extends Error {
+  /**
+   * @param indices the indices of the points with non-finite coordinates
+   */
+  constructor(public indices: number[]) {
+    super(
+      `${indices.length} point(s) have non-finite coordinates, at indices ` +
+        indices.slice(0, MAX_REPORTED_INDICES).join(', ') +
+        (indices.length > MAX_REPORTED_INDICES ? ', ...' : '')
+    );
+    // Restore the prototype chain, which is lost when extending Error in ES5.
+    Object.setPrototypeOf(this, NonFiniteCoordinatesError.prototype);
+    this.name = 'NonFiniteCoordinatesError';
+  }
+}
+
+export interface DatasetParams {
+  /**
+   * How to handle points with NaN or infinite coordinates: 'error' throws a
+   * `NonFiniteCoordinatesError` listing them, and 'drop' removes them (and
+   * their metadata), recording their original indices in `droppedIndices`.
+   */
+  nonFinite?: 'error' | 'drop';
+}
 
 export class Dataset {
   public spriteMetadata?: SpriteMetadata;
   public dimensions: number;
+  /** Point coordinates, packed as `dimensions` consecutive values per point. */
+  public positions: Float32Array;
+  /**
+   * The original indices of points dropped for having non-finite coordinates,
+   * when created with `nonFinite: 'drop'`.
+   */
+  public droppedIndices: number[] = [];
+
+  private metadataRows?: PointMetadata[];
+  private metadataColumns?: MetadataColumns;
+  private inferredSchema!: MetadataSchema;
+  private cachedPoints?: Points;
+  /** The positions that `cachedPoints` was built from. */
+  private pointsSource?: Float32Array;
 
   /**
    *
-   * @param points the data as an array of 2d or 3d number arrays
-   * @param metadata an array of point metadata, corresponding to each point
-   * @param sequences a collection of points that make up a sequence
+   * @param points the data as an array of 2d or 3d number arrays, or as a
+   *     packed Float32Array of coordinates (see `Dataset.fromTypedArray`)
+   * @param metadata an array of point metadata, corresponding to each point,
+   *     or an object of metadata columns
+   * @param dimensions the dimensionality of the data, required when points
+   *     are supplied as a packed Float32Array
+   * @param params how to validate the points
    */
-  constructor(public points: Points, public metadata: PointMetadata[] = []) {
-    const dimensions = points[0].length;
-    if (!(dimensions === 2 || dimensions === 3)) {
-      throw new Error(DIMENSIONALITY_ERROR_MESSAGE);
-    }
-    for (const point of points) {
-      if (dimensions !== point.length) {
+  constructor(
+    points: Points | Float32Array,
+    metadata: PointMetadata[] | MetadataColumns = [],
+    dimensions?: number,
+    params: DatasetParams = {}
+  ) {
+    if (points instanceof Float32Array) {
+      if (!(dimensions === 2 || dimensions === 3)) {
         throw new Error(DIMENSIONALITY_ERROR_MESSAGE);
       }
+      if (points.length % dimensions !== 0) {
+        throw new Error(POSITIONS_LENGTH_ERROR_MESSAGE);
+      }
+      this.dimensions = dimensions;
+      this.positions = points;
+    } else {
+      this.dimensions = points[0].length;
+      this.positions = packPoints(points, this.dimensions);
+    }
+
+    const nonFinite = findNonFinite(this.positions, this.dimensions);
+    if (nonFinite.length > 0) {
+      if (params.nonFinite !== 'drop') {
+        throw new NonFiniteCoordinatesError(nonFinite);
+      }
+      const removed = new Set(nonFinite);
+      this.positions = filterPacked(this.positions, this.dimensions, removed);
+      metadata = filterMetadata(metadata, removed);
+      this.droppedIndices = nonFinite;
+    }
+
+    if (Array.isArray(metadata)) {
+      this.metadataRows = metadata;
+    } else {
+      this.metadataColumns = metadata;
+    }
+    this.inferSchema();
+  }
+
+  /**
+   * Creates a dataset directly from packed coordinates, without converting
+   * them to per-point arrays. Use this for very large datasets.
+   *
+   * @param positions the packed coordinates, `dimensions` values per point
+   * @param dimensions the dimensionality of the data, either 2 or 3
+   * @param metadata an array of point metadata or an object of metadata columns
+   * @param params how to validate the points
+   */
+  static fromTypedArray(
+    positions: Float32Array,
+    dimensions: number,
+    metadata: PointMetadata[] | MetadataColumns = [],
+    params: DatasetParams = {}
+  ) {
+    return new Dataset(positions, metadata, dimensions, params);
+  }
+
+  /** The number of points in the dataset. */
+  get pointCount() {
+    return this.positions.length / this.dimensions;
+  }
+
+  /**
+   * The points as an array of 2d or 3d number arrays. The array is built on
+   * first access and again after the positions change, so prefer `positions`
+   * for large datasets. Setting the points replaces every coordinate.
+   */
+  get points(): Points {
+    if (
+      this.cachedPoints === undefined ||
+      this.pointsSource !== this.positions
+    ) {
+      const {dimensions, positions} = this;
+      const points: Points = [];
+      for (let i = 0; i < positions.length; i += dimensions) {
+        points.push(
+          dimensions === 3
+            ? [positions[i], positions[i + 1], positions[i + 2]]
+            : [positions[i], positions[i + 1]]
+        );
+      }
+      this.cachedPoints = points;
+      this.pointsSource = positions;
+    }
+    return this.cachedPoints;
+  }
+
+  set points(points: Points) {
+    const dimensions = points.length > 0 ? points[0].length : this.dimensions;
+    const positions = packPoints(points, dimensions);
+    const nonFinite = findNonFinite(positions, dimensions);
+    if (nonFinite.length > 0) {
+      throw new NonFiniteCoordinatesError(nonFinite);
     }
     this.dimensions = dimensions;
+    this.positions = positions;
+  }
+
+  /**
+   * The metadata as an array of per-point objects. When the dataset was
+   * created with metadata columns, the rows are built on first access, and
+   * are used instead of the columns from then on. Setting the metadata
+   * replaces it with the given rows.
+   */
+  get metadata(): PointMetadata[] {
+    if (this.metadataRows === undefined) {
+      const rows: PointMetadata[] = [];
+      for (let i = 0; i < this.pointCount; i++) {
+        rows.push(this.getMetadataRow(i));
+      }
+      this.metadataRows = rows;
+    }
+    return this.metadataRows;
+  }
+
+  set metadata(metadata: PointMetadata[]) {
+    this.metadataRows = metadata;
+    this.metadataColumns = undefined;
+    this.inferSchema();
+  }
+
+  /**
+   * Returns the metadata of a point. With metadata columns, the point's row is
+   * built on each call, without building or caching the rows of every point.
+   */
+  getMetadataRow(index: number): PointMetadata {
+    if (this.metadataRows !== undefined) {
+      return this.metadataRows[index] || {};
+    }
+    const columns = this.metadataColumns!;
+    const row: PointMetadata = {};
+    for (const key of Object.keys(columns)) {
+      row[key] = columns[key][index];
+    }
+    return row;
+  }
+
+  /** Returns the value of a metadata field for a point. */
+  getMetadataValue(index: number, key: string): number | string | undefined {
+    if (this.metadataRows !== undefined) {
+      const row = this.metadataRows[index];
+      return row ? row[key] : undefined;
+    }
+    const column = this.metadataColumns![key];
+    return column ? column[index] : undefined;
+  }
+
+  /** The metadata field names, in order of first appearance. */
+  get metadataKeys(): string[] {
+    if (this.metadataColumns !== undefined) {
+      return Object.keys(this.metadataColumns);
+    }
+    const keys = new Set<string>();
+    for (const row of this.metadataRows!) {
+      for (const key of Object.keys(row)) keys.add(key);
+    }
+    return [...keys];
+  }
+
+  /**
+   * The inferred type and statistics of each metadata field. The schema is
+   * inferred on construction, and again when points are added or removed or
+   * the metadata is replaced.
+   */
+  get schema(): MetadataSchema {
+    return this.inferredSchema;
+  }
+
+  private inferSchema() {
+    this.inferredSchema = inferMetadataSchema(
+      this.metadataKeys,
+      this.pointCount,
+      (i, key) => this.getMetadataValue(i, key)
+    );
+  }
+
+  /**
+   * Appends points (and their metadata) to the end of the dataset. Existing
+   * point indices are unchanged.
+   *
+   * @param points the new points, as an array of number arrays or as packed
+   *     coordinates matching the dataset's dimensionality
+   * @param metadata an array of point metadata or an object of metadata columns
+   */
+  appendPoints(
+    points: Points | Float32Array,
+    metadata: PointMetadata[] | MetadataColumns = []
+  ) {
+    const newPositions = this.toPositions(points);
+    const count = newPositions.length / this.dimensions;
+
+    const positions = new Float32Array(
+      this.positions.length + newPositions.length
+    );
+    positions.set(this.positions);
+    positions.set(newPositions, this.positions.length);
+
+    // Copy the rows or columns rather than modifying the caller's metadata.
+    const rows: PointMetadata[] = [];
+    for (let i = 0; i < count; i++) rows.push(getMetadataRow(metadata, i));
+    if (this.metadataRows !== undefined) {
+      this.metadataRows = this.metadataRows.concat(rows);
+    } else {
+      const columns: MetadataColumns = {...this.metadataColumns!};
+      const keys = new Set(Object.keys(columns));
+      for (const row of rows) {
+        for (const key of Object.keys(row)) keys.add(key);
+      }
+      const pointCount = this.pointCount;
+      for (const key of keys) {
+        // Fields new to the dataset are missing for the earlier points.
+        const column =
+          columns[key] || new Array<undefined>(pointCount).fill(undefined);
+        columns[key] = appendToColumn(
+          column,
+          rows.map(row => row[key])
+        );
+      }
+      this.metadataColumns = columns;
+    }
+    this.positions = positions;
+    this.inferSchema();
+  }
+
+  /**
+   * Removes points (and their metadata) from the dataset. The indices of the
+   * remaining points shift down to stay contiguous.
+   *
+   * @param indices the indices of the points to remove
+   */
+  removePoints(indices: number[]) {
+    const {dimensions} = this;
+    const n = this.pointCount;
+    const removed = new Uint8Array(n);
+    for (const index of indices) {
+      if (index >= 0 && index < n) removed[index] = 1;
+    }
+
+    const kept: number[] = [];
+    for (let i = 0; i < n; i++) {
+      if (!removed[i]) kept.push(i);
+    }
+
+    const positions = new Float32Array(kept.length * dimensions);
+    let dst = 0;
+    for (const i of kept) {
+      for (let d = 0; d < dimensions; d++) {
+        positions[dst++] = this.positions[i * dimensions + d];
+      }
+    }
+
+    if (this.metadataRows !== undefined) {
+      this.metadataRows = this.metadataRows.filter((_, i) => !removed[i]);
+    } else {
+      const columns: MetadataColumns = {};
+      for (const key of Object.keys(this.metadataColumns!)) {
+        columns[key] = filterColumn(this.metadataColumns![key], kept);
+      }
+      this.metadataColumns = columns;
+    }
+
+    const spriteIndices =
+      this.spriteMetadata && this.spriteMetadata.spriteIndices;
+    if (spriteIndices) {
+      this.spriteMetadata!.spriteIndices = spriteIndices.filter(
+        (_, i) => !removed[i]
+      );
+    }
+    this.positions = positions;
+    this.inferSchema();
+  }
+
+  /**
+   * Replaces the coordinates of existing points.
+   *
+   * @param indices the indices of the points to update
+   * @param points the new coordinates, one per index, as an array of number
+   *     arrays or as packed coordinates
+   */
+  updatePoints(indices: number[], points: Points | Float32Array) {
+    const {dimensions} = this;
+    const newPositions = this.toPositions(points);
+    if (newPositions.length !== indices.length * dimensions) {
+      throw new Error('Expected one point for each index to update');
+    }
+    checkPointIndices(indices, this.pointCount);
+    for (let i = 0; i < indices.length; i++) {
+      const dst = indices[i] * dimensions;
+      for (let d = 0; d < dimensions; d++) {
+        this.positions[dst + d] = newPositions[i * dimensions + d];
+      }
+    }
+    this.cachedPoints = undefined;
+  }
+
+  /**
+   * Packs points to match this dataset's dimensionality, throwing a
+   * `NonFiniteCoordinatesError` (indexed into `points`) for invalid points.
+   */
+  private toPositions(points: Points | Float32Array) {
+    let positions = points as Float32Array;
+    if (!(points instanceof Float32Array)) {
+      positions = packPoints(points, this.dimensions);
+    } else if (points.length % this.dimensions !== 0) {
+      throw new Error(POSITIONS_LENGTH_ERROR_MESSAGE);
+    }
+    const nonFinite = findNonFinite(positions, this.dimensions);
+    if (nonFinite.length > 0) {
+      throw new NonFiniteCoordinatesError(nonFinite);
+    }
+    return positions;
   }
 
   setSpriteMetadata(spriteMetadata: SpriteMetadata) {
     this.spriteMetadata = spriteMetadata;
   }
 }
+
+export interface HighDimensionalDatasetParams extends PCAParams, DatasetParams {
+  /** The dimensionality of the vectors, required for packed vectors. */
+  dimensions?: number;
+  /** The principal components to display, as 2 or 3 component indices. */
+  components?: number[];
+}
+
+const DEFAULT_COMPONENTS = [0, 1, 2];
+
+/**
+ * A dataset of N-dimensional vectors, displayed by projecting them onto 2 or 3
+ * of their principal components. The principal components are computed once,
+ * so switching between them is cheap.
+ */
+export class HighDimensionalDataset extends Dataset {
+  /** The vectors, packed as `vectorDimensions` values per point. */
+  public vectors: Float32Array;
+  public vectorDimensions: number;
+  public pca: PCAResult;
+  /** The indices of the principal components currently displayed. */
+  public components: number[];
+
+  /** The projection of every vector onto every principal component. */
+  private projections: Float32Array;
+
+  /**
+   *
+   * @param vectors the data as an array of number arrays, or as a packed
+   *     Float32Array of values with `params.dimensions` values per vector
+   * @param metadata an array of point metadata or an object of metadata columns
+   * @param params the PCA parameters and the components to display
+   */
+  constructor(
+    vectors: number[][] | Float32Array,
+    metadata: PointMetadata[] | MetadataColumns = [],
+    params: HighDimensionalDatasetParams = {}
+  ) {
+    const {components, nonFinite, ...pcaParams} = params;
+    const vectorDimensions =
+      vectors instanceof Float32Array ? params.dimensions : vectors[0].length;
+    if (vectorDimensions === undefined || vectorDimensions < 2) {
+      throw new Error(VECTOR_DIMENSIONALITY_ERROR_MESSAGE);
+    }
+    let packed = packVectors(vectors, vectorDimensions);
+
+    // Validate the vectors rather than the projections, since a single
+    // non-finite vector would poison the PCA of every other vector.
+    const nonFiniteIndices = findNonFinite(packed, vectorDimensions);
+    if (nonFiniteIndices.length > 0) {
+      if (nonFinite !== 'drop') {
+        throw new NonFiniteCoordinatesError(nonFiniteIndices);
+      }
+      const removed = new Set(nonFiniteIndices);
+      packed = filterPacked(packed, vectorDimensions, removed);
+      metadata = filterMetadata(metadata, removed);
+    }
+    const pca = computePCA(packed, vectorDimensions, pcaParams);
+    const projections = projectOntoComponents(packed, pca);
+    const componentCount = pca.explainedVariance.length;
+    // Vectors with only 2 dimensions have only 2 components to show by default.
+    const displayed = components
+      ? components.slice()
+      : DEFAULT_COMPONENTS.slice(0, componentCount);
+    checkComponents(displayed, componentCount);
+
+    super(
+      selectComponents(projections, pca, displayed),
+      metadata,
+      displayed.length
+    );
+    this.vectors = packed;
+    this.vectorDimensions = vectorDimensions;
+    this.droppedIndices = nonFiniteIndices;
+    this.pca = pca;
+    this.components = displayed;
+    this.projections = projections;
+  }
+
+  /**
+   * Displays a different set of principal components.
+   *
+   * @param components the indices of 2 or 3 principal components
+   */
+  setComponents(components: number[]) {
+    checkComponents(components, this.pca.explainedVariance.length);
+    this.components = components.slice();
+    this.dimensions = components.length;
+    this.positions = selectComponents(this.projections, this.pca, components);
+  }
+
+  /**
+   * Appends vectors (and their metadata), projecting them onto the existing
+   * principal components.
+   */
+  appendPoints(
+    vectors: number[][] | Float32Array,
+    metadata: PointMetadata[] | MetadataColumns = []
+  ) {
+    const packed = packFiniteVectors(vectors, this.vectorDimensions);
+    const projections = projectOntoComponents(packed, this.pca);
+
+    this.vectors = concatPacked(this.vectors, packed);
+    this.projections = concatPacked(this.projections, projections);
+    super.appendPoints(
+      selectComponents(projections, this.pca, this.components),
+      metadata
+    );
+  }
+
+  removePoints(indices: number[]) {
+    const removed = new Set(indices);
+    this.vectors = filterPacked(this.vectors, this.vectorDimensions, removed);
+    this.projections = filterPacked(
+      this.projections,
+      this.pca.explainedVariance.length,
+      removed
+    );
+    super.removePoints(indices);
+  }
+
+  /** Replaces the vectors of existing points. */
+  updatePoints(indices: number[], vectors: number[][] | Float32Array) {
+    const {vectorDimensions} = this;
+    const packed = packFiniteVectors(vectors, vectorDimensions);
+    if (packed.length !== indices.length * vectorDimensions) {
+      throw new Error('Expected one vector for each index to update');
+    }
+    checkPointIndices(indices, this.pointCount);
+    const projections = projectOntoComponents(packed, this.pca);
+    const componentCount = this.pca.explainedVariance.length;
+    for (let i = 0; i < indices.length; i++) {
+      this.vectors.set(
+        packed.subarray(i * vectorDimensions, (i + 1) * vectorDimensions),
+        indices[i] * vectorDimensions
+      );
+      this.projections.set(
+        projections.subarray(i * componentCount, (i + 1) * componentCount),
+        indices[i] * componentCount
+      );
+    }
+    super.updatePoints(
+      indices,
+      selectComponents(projections, this.pca, this.components)
+    );
+  }
+}
+
+/** Throws a RangeError unless there are 2 or 3 components, all computed. */
+function checkComponents(components: number[], componentCount: number) {
+  const outOfRange = components.some(
+    c => !(Number.isInteger(c) && c >= 0 && c < componentCount)
+  );
+  if (!(components.length === 2 || components.length === 3) || outOfRange) {
+    throw new RangeError('Setting invalid principal components');
+  }
+}
+
+/** Throws a RangeError unless every index is a point in the dataset. */
+function checkPointIndices(indices: number[], pointCount: number) {
+  for (const index of indices) {
+    if (!(Number.isInteger(index) && index >= 0 && index < pointCount)) {
+      throw new RangeError(`Point index ${index} is out of range`);
+    }
+  }
+}
+
+/** Packs an array of vectors into a flat Float32Array. */
+function packVectors(vectors: number[][] | Float32Array, dimensions: number) {
+  if (vectors instanceof Float32Array) {
+    if (vectors.length % dimensions !== 0) {
+      throw new Error(POSITIONS_LENGTH_ERROR_MESSAGE);
+    }
+    return vectors;
+  }
+  const packed = new Float32Array(vectors.length * dimensions);
+  vectors.forEach((vector, i) => {
+    if (vector.length !== dimensions) {
+      throw new Error(VECTOR_DIMENSIONALITY_ERROR_MESSAGE);
+    }
+    packed.set(vector, i * dimensions);
+  });
+  return packed;
+}
+
+/** Packs vectors, throwing a `NonFiniteCoordinatesError` for invalid ones. */
+function packFiniteVectors(
+  vectors: number[][] | Float32Array,
+  dimensions: number
+) {
+  const packed = packVectors(vectors, dimensions);
+  const nonFinite = findNonFinite(packed, dimensions);
+  if (nonFinite.length > 0) {
+    throw new NonFiniteCoordinatesError(nonFinite);
+  }
+  return packed;
+}
+
+/** Packs the chosen principal component projections as point positions. */
+function selectComponents(
+  projections: Float32Array,
+  pca: PCAResult,
+  components: number[]
+) {
+  const componentCount = pca.explainedVariance.length;
+  const n = projections.length / componentCount;
+  const positions = new Float32Array(n * components.length);
+  let dst = 0;
+  for (let i = 0; i < n; i++) {
+    for (const c of components) {
+      positions[dst++] = projections[i * componentCount + c];
+    }
+  }
+  return positions;
+}
+
+function concatPacked(a: Float32Array, b: Float32Array) {
+  const result = new Float32Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
+
+/** Drops the removed items from an array packed with `stride` values each. */
+function filterPacked(
+  array: Float32Array,
+  stride: number,
+  removed: Set<number>
+) {
+  const n = array.length / stride;
+  const kept: number[] = [];
+  for (let i = 0; i < n; i++) {
+    if (!removed.has(i)) kept.push(i);
+  }
+  const result = new Float32Array(kept.length * stride);
+  kept.forEach((i, j) => {
+    result.set(array.subarray(i * stride, (i + 1) * stride), j * stride);
+  });
+  return result;
+}
+
+/** Returns the indices of items with a NaN or infinite value. */
+export function findNonFinite(array: Float32Array, stride: number) {
+  const indices: number[] = [];
+  for (let i = 0; i < array.length; i++) {
+    if (!isFinite(array[i])) {
+      const index = Math.floor(i / stride);
+      indices.push(index);
+      // Skip the rest of this item's values.
+      i = (index + 1) * stride - 1;
+    }
+  }
+  return indices;
+}
+
+/** Packs an array of 2d or 3d points into a flat Float32Array. */
+function packPoints(points: Points, dimensions: number) {
+  if (!(dimensions === 2 || dimensions === 3)) {
+    throw new Error(DIMENSIONALITY_ERROR_MESSAGE);
+  }
+  const positions = new Float32Array(points.length * dimensions);
+  let dst = 0;
+  for (const point of points) {
+    if (dimensions !== point.length) {
+      throw new Error(DIMENSIONALITY_ERROR_MESSAGE);
+    }
+    for (let d = 0; d < dimensions; d++) {
+      positions[dst++] = point[d];
+    }
+  }
+  return positions;
+}
+
+/** Reads the metadata for a single point from rows or columns. */
+function getMetadataRow(
+  metadata: PointMetadata[] | MetadataColumns,
+  index: number
+): PointMetadata {
+  if (Array.isArray(metadata)) {
+    return metadata[index] || {};
+  }
+  const row: PointMetadata = {};
+  for (const key of Object.keys(metadata)) {
+    row[key] = metadata[key][index];
+  }
+  return row;
+}
+
+type TypedColumn = Float32Array | Float64Array | Int32Array | Uint32Array;
+
+/**
+ * Appends values to a metadata column, keeping typed array columns typed when
+ * every appended value is a number.
+ */
+function appendToColumn(
+  column: ArrayLike<number | string | undefined>,
+  values: Array<number | string | undefined>
+): ArrayLike<number | string | undefined> {
+  if (ArrayBuffer.isView(column)) {
+    const typed = column as TypedColumn;
+    const Constructor = typed.constructor as new (
+      length: number
+    ) => TypedColumn;
+    // Missing or string values can't be stored in a typed array, so such a
+    // column becomes a generic array rather than holding NaN for them.
+    if (values.every(value => typeof value === 'number')) {
+      const result = new Constructor(typed.length + values.length);
+      result.set(typed);
+      for (let i = 0; i < values.length; i++) {
+        result[typed.length + i] = values[i] as number;
+      }
+      return result;
+    }
+  }
+  return Array.prototype.slice.call(column).concat(values);
+}
+
+/** Drops the removed points' metadata, without modifying the original. */
+function filterMetadata(
+  metadata: PointMetadata[] | MetadataColumns,
+  removed: Set<number>
+): PointMetadata[] | MetadataColumns {
+  if (Array.isArray(metadata)) {
+    return metadata.filter((_, i) => !removed.has(i));
+  }
+  const columns: MetadataColumns = {};
+  for (const key of Object.keys(metadata)) {
+    const kept: number[] = [];
+    for (let i = 0; i < metadata[key].length; i++) {
+      if (!removed.has(i)) kept.push(i);
+    }
+    columns[key] = filterColumn(metadata[key], kept);
+  }
+  return columns;
+}
+
+/** Builds a new metadata column holding only the given indices. */
+function filterColumn(
+  column: ArrayLike<number | string | undefined>,
+  indices: number[]
+): ArrayLike<number | string | undefined> {
+  if (ArrayBuffer.isView(column)) {
+    const typed = column as TypedColumn;
+    const Constructor = typed.constructor as new (
+      length: number
+    ) => TypedColumn;
+    const result = new Constructor(indices.length);
+    for (let i = 0; i < indices.length; i++) {
+      result[i] = typed[indices[i]];
+    }
+    return result;
+  }
+  return indices.map(i => column[i]);
+}
@@ -0,0 +1,95 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {Dataset} from './data';
+import {checkEncoding, generateEncodingArray} from './encoding';
+
+function makeDataset(counts: Array<number | string | undefined>) {
+  const positions = new Float32Array(counts.length * 2);
+  return new Dataset(
+    positions,
+    counts.map(count => ({count})),
+    2
+  );
+}
+
+describe('generateEncodingArray', () => {
+  it('scales a field linearly over its extent', () => {
+    const dataset = makeDataset([0, 5, 10]);
+    const output = generateEncodingArray(dataset, {field: 'count'}, [1, 3], 0);
+    expect(Array.from(output)).toEqual([1, 2, 3]);
+  });
+
+  it('clamps values to the domain and gives missing values the default', () => {
+    const dataset = makeDataset([-5, 'x', undefined, 20]);
+    const encoding = {field: 'count', domain: [0, 10] as [number, number]};
+    const output = generateEncodingArray(dataset, encoding, [0, 1], -1);
+    expect(Array.from(output)).toEqual([0, -1, -1, 1]);
+  });
+
+  it('encodes computed values', () => {
+    const dataset = makeDataset([0, 0]);
+    const value = (i: number) => i * 2;
+    const output = generateEncodingArray(dataset, {value}, [0, 1], 0);
+    expect(Array.from(output)).toEqual([0, 1]);
+  });
+
+  it('treats values outside a log scale as missing', () => {
+    const dataset = makeDataset([0, 1, 10, 100]);
+    const encoding = {field: 'count', scale: 'log' as const};
+    const output = generateEncodingArray(dataset, encoding, [0, 1], -1);
+    expect(Array.from(output)).toEqual([-1, 0, 0.5, 1]);
+  });
+
+  it('scales by the square root', () => {
+    const dataset = makeDataset([0, 25, 100]);
+    const encoding = {field: 'count', scale: 'sqrt' as const};
+    const output = generateEncodingArray(dataset, encoding, [0, 10], 0);
+    expect(Array.from(output)).toEqual([0, 5, 10]);
+  });
+
+  it('rejects a log domain including 0', () => {
+    const dataset = makeDataset([1, 10]);
+    const encoding = {
+      field: 'count',
+      scale: 'log' as const,
+      domain: [0, 10] as [number, number],
+    };
+    expect(() => generateEncodingArray(dataset, encoding, [0, 1], 0)).toThrow(
+      RangeError
+    );
+  });
+});
+
+describe('checkEncoding', () => {
+  it('accepts domains within the scale', () => {
+    expect(() =>
+      checkEncoding({scale: 'log', domain: [0.001, 1]})
+    ).not.toThrow();
+    expect(() => checkEncoding({scale: 'sqrt', domain: [0, 1]})).not.toThrow();
+    expect(() => checkEncoding({domain: [-1, 1]})).not.toThrow();
+    expect(() => checkEncoding({scale: 'log'})).not.toThrow();
+  });
+
+  it('rejects domains outside the scale', () => {
+    expect(() => checkEncoding({scale: 'log', domain: [-1, 10]})).toThrow(
+      RangeError
+    );
+    expect(() => checkEncoding({scale: 'sqrt', domain: [-1, 1]})).toThrow(
+      RangeError
+    );
+  });
+});
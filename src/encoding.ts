@@ -0,0 +1,111 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+import {Dataset} from './data';
+
+export type ScaleType = 'linear' | 'sqrt' | 'log';
+
+/**
+ * Maps a numeric value of each point, read from a metadata field or computed
+ * by a function, onto a range of output values such as point sizes.
+ */
+export interface NumericEncoding {
+  /** The numeric metadata field to encode. */
+  field?: string;
+  /** Computes the value to encode for a point, instead of `field`. */
+  value?: (index: number) => number | undefined;
+  /**
+   * The [min, max] of the values, by default their extent. A log scale's domain
+   * must be positive, and a sqrt scale's must not be negative.
+   */
+  domain?: [number, number];
+  /** The [min, max] output values. */
+  range?: [number, number];
+  /** How values are scaled between the domain and range, 'linear' default. */
+  scale?: ScaleType;
+}
+
+/** Throws a RangeError if the encoding's domain is outside its scale's. */
+export function checkEncoding(encoding: NumericEncoding) {
+  const {domain, scale = 'linear'} = encoding;
+  if (domain && domain.some(value => isNaN(transform(value, scale)))) {
+    throw new RangeError(
+      `The domain [${domain.join(', ')}] is invalid for a ${scale} scale`
+    );
+  }
+}
+
+/**
+ * Encodes the value of every point. Values outside the domain are clamped,
+ * and points with missing or non-numeric values get the `missing` output.
+ *
+ * @param defaultRange the output range when the encoding has none
+ */
+export function generateEncodingArray(
+  dataset: Dataset,
+  encoding: NumericEncoding,
+  defaultRange: [number, number],
+  missing: number
+): Float32Array {
+  checkEncoding(encoding);
+  const {range = defaultRange, scale = 'linear'} = encoding;
+  const n = dataset.pointCount;
+  const values = new Float64Array(n);
+  for (let i = 0; i < n; i++) {
+    const value = encoding.value
+      ? encoding.value(i)
+      : encoding.field !== undefined
+      ? dataset.getMetadataValue(i, encoding.field)
+      : undefined;
+    values[i] =
+      typeof value === 'number' && isFinite(value)
+        ? transform(value, scale)
+        : NaN;
+  }
+
+  let [min, max] = encoding.domain
+    ? encoding.domain.map(v => transform(v, scale))
+    : [Infinity, -Infinity];
+  if (!encoding.domain) {
+    for (let i = 0; i < n; i++) {
+      if (values[i] < min) min = values[i];
+      if (values[i] > max) max = values[i];
+    }
+  }
+
+  const output = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    const value = values[i];
+    if (isNaN(value)) {
+      output[i] = missing;
+      continue;
+    }
+    const t = max > min ? (value - min) / (max - min) : 1;
+    output[i] = range[0] + Math.min(Math.max(t, 0), 1) * (range[1] - range[0]);
+  }
+  return output;
+}
+
+/**
+ * Applies the scale's transform. Values outside a sqrt or log scale's domain
+ * are treated as missing.
+ */
+function transform(value: number, scale: ScaleType) {
+  if (scale === 'sqrt') return value >= 0 ? Math.sqrt(value) : NaN;
+  if (scale === 'log') return value > 0 ? Math.log(value) : NaN;
+  return value;
+}
@@ -0,0 +1,99 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {Dataset, HighDimensionalDataset} from './data';
+import {exportPoints, exportToCSV, exportToJSON} from './export';
+
+const rowsDataset = new Dataset(
+  [
+    [0, 1],
+    [2, 3],
+    [4, 5],
+  ],
+  [
+    {label: 'plain', note: 'a, "quoted"\nline'},
+    {label: '=SUM(A1:A2)', count: -1},
+    {extra: '@home', label: '-1+2'},
+  ]
+);
+
+describe('exportToCSV', () => {
+  it('writes a header of the index, coordinates and metadata fields', () => {
+    const [header] = exportToCSV(rowsDataset).split('\n');
+    expect(header).toBe('index,x,y,label,note,count,extra');
+  });
+
+  it('quotes and escapes values with delimiters, quotes or newlines', () => {
+    const csv = exportToCSV(rowsDataset, [0]);
+    expect(csv).toBe(
+      'index,x,y,label,note,count,extra\n' +
+        '0,0,1,plain,"a, ""quoted""\nline",,\n'
+    );
+  });
+
+  it('prefixes text that spreadsheets would run as a formula', () => {
+    const lines = exportToCSV(rowsDataset, [1, 2]).split('\n');
+    expect(lines[1]).toBe("1,2,3,'=SUM(A1:A2),,-1,");
+    expect(lines[2]).toBe("2,4,5,'-1+2,,,'@home");
+  });
+
+  it('exports the metadata columns of a columnar dataset', () => {
+    const dataset = Dataset.fromTypedArray(new Float32Array([0, 0, 1, 1]), 2, {
+      size: new Float32Array([0.5, 2]),
+      name: ['p', 'q'],
+    });
+    expect(exportToCSV(dataset)).toBe(
+      'index,x,y,size,name\n0,0,0,0.5,p\n1,1,1,2,q\n'
+    );
+  });
+
+  it('exports the original vectors of a high-dimensional dataset', () => {
+    const vectors = [
+      [1, 0, 0, 0],
+      [0, 1, 0, 0],
+      [0, 0, 1, 0],
+      [0, 0, 0, 1],
+    ];
+    const dataset = new HighDimensionalDataset(vectors);
+    const lines = exportToCSV(dataset, [3]).split('\n');
+    expect(lines[0]).toBe('index,dim0,dim1,dim2,dim3');
+    expect(lines[1]).toBe('3,0,0,0,1');
+  });
+});
+
+describe('exportToJSON', () => {
+  it('exports the selected points, leaving out missing fields', () => {
+    const points = JSON.parse(exportToJSON(rowsDataset, [2, 0]));
+    expect(points).toEqual([
+      {
+        index: 2,
+        coordinates: [4, 5],
+        metadata: {label: '-1+2', extra: '@home'},
+      },
+      {
+        index: 0,
+        coordinates: [0, 1],
+        metadata: {label: 'plain', note: 'a, "quoted"\nline'},
+      },
+    ]);
+  });
+
+  it('exports every point by default', () => {
+    const points = JSON.parse(exportPoints(rowsDataset, 'json'));
+    expect(points.map((p: {index: number}) => p.index)).toEqual([0, 1, 2]);
+    expect(exportPoints(rowsDataset, 'csv')).toBe(exportToCSV(rowsDataset));
+  });
+});
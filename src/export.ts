@@ -0,0 +1,143 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+import {Dataset, HighDimensionalDataset, PointMetadata} from './data';
+
+export type ExportFormat = 'csv' | 'json';
+
+/** A single exported point, as serialized to JSON. */
+export interface ExportedPoint {
+  index: number;
+  /** The original coordinates, or the original vector of a high-dim dataset. */
+  coordinates: number[];
+  metadata: PointMetadata;
+}
+
+const MIME_TYPES: {[format in ExportFormat]: string} = {
+  csv: 'text/csv',
+  json: 'application/json',
+};
+
+const COORDINATE_NAMES = ['x', 'y', 'z'];
+
+/**
+ * Serializes points to CSV, with one row per point: its index, its original
+ * coordinates, then every metadata field. Text values starting with `=`, `+`,
+ * `-` or `@` are prefixed with `'` so spreadsheets don't run them.
+ *
+ * @param dataset the dataset containing the points
+ * @param indices the indices of the points to export, all points by default
+ */
+export function exportToCSV(dataset: Dataset, indices?: number[]) {
+  const pointIndices = indices || allIndices(dataset);
+  const keys = dataset.metadataKeys;
+  const header = ['index', ...coordinateNames(dataset), ...keys];
+  const rows = [header.map(escapeCSV).join(',')];
+  for (const i of pointIndices) {
+    const values = [
+      i,
+      ...getCoordinates(dataset, i),
+      ...keys.map(key => dataset.getMetadataValue(i, key)),
+    ];
+    rows.push(values.map(escapeCSV).join(','));
+  }
+  return rows.join('\n') + '\n';
+}
+
+/**
+ * Serializes points to a JSON array of `ExportedPoint` objects.
+ *
+ * @param dataset the dataset containing the points
+ * @param indices the indices of the points to export, all points by default
+ */
+export function exportToJSON(dataset: Dataset, indices?: number[]) {
+  const pointIndices = indices || allIndices(dataset);
+  const keys = dataset.metadataKeys;
+  const points: ExportedPoint[] = pointIndices.map(i => {
+    const metadata: PointMetadata = {};
+    for (const key of keys) {
+      const value = dataset.getMetadataValue(i, key);
+      if (value !== undefined) metadata[key] = value;
+    }
+    return {index: i, coordinates: getCoordinates(dataset, i), metadata};
+  });
+  return JSON.stringify(points);
+}
+
+/** Serializes points to CSV or JSON text. */
+export function exportPoints(
+  dataset: Dataset,
+  format: ExportFormat,
+  indices?: number[]
+) {
+  return format === 'json'
+    ? exportToJSON(dataset, indices)
+    : exportToCSV(dataset, indices);
+}
+
+/** Serializes points to a CSV or JSON Blob, e.g. for a download link. */
+export function exportPointsBlob(
+  dataset: Dataset,
+  format: ExportFormat,
+  indices?: number[]
+) {
+  return new Blob([exportPoints(dataset, format, indices)], {
+    type: MIME_TYPES[format],
+  });
+}
+
+function allIndices(dataset: Dataset) {
+  const indices: number[] = [];
+  for (let i = 0; i < dataset.pointCount; i++) {
+    indices.push(i);
+  }
+  return indices;
+}
+
+function coordinateNames(dataset: Dataset) {
+  if (dataset instanceof HighDimensionalDataset) {
+    const names: string[] = [];
+    for (let d = 0; d < dataset.vectorDimensions; d++) {
+      names.push(`dim${d}`);
+    }
+    return names;
+  }
+  return COORDINATE_NAMES.slice(0, dataset.dimensions);
+}
+
+function getCoordinates(dataset: Dataset, index: number) {
+  const [values, dimensions] =
+    dataset instanceof HighDimensionalDataset
+      ? [dataset.vectors, dataset.vectorDimensions]
+      : [dataset.positions, dataset.dimensions];
+  return Array.from(
+    values.subarray(index * dimensions, (index + 1) * dimensions)
+  );
+}
+
+/**
+ * Quotes a CSV value if needed. Text that a spreadsheet would run as a formula
+ * is prefixed with an apostrophe, so opening an export can't run it.
+ */
+function escapeCSV(value: number | string | undefined) {
+  if (value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
@@ -0,0 +1,75 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {
+  HighlightGroup,
+  listLabeledPoints,
+  sortHighlightGroups,
+} from './highlight_groups';
+
+describe('sortHighlightGroups', () => {
+  it('orders groups by priority, then by the order they were set', () => {
+    const groups = new Map<string, HighlightGroup>([
+      ['a', {indices: [0], color: 'red', priority: 1}],
+      ['b', {indices: [1], color: 'green'}],
+      ['c', {indices: [2], color: 'blue', priority: 1}],
+      ['d', {indices: [3], color: 'black', priority: -1}],
+    ]);
+    const colors = sortHighlightGroups(groups).map(group => group.color);
+    expect(colors).toEqual(['black', 'green', 'red', 'blue']);
+  });
+});
+
+describe('listLabeledPoints', () => {
+  const groups: HighlightGroup[] = [
+    {indices: [4, 5], color: 'red', showLabels: true},
+    {indices: [6], color: 'green'},
+    {indices: [5, 7, 99], color: 'blue', showLabels: true},
+  ];
+
+  it('labels the hovered point and a single selected point', () => {
+    expect(listLabeledPoints(1, new Set([2]), [], 10)).toEqual([
+      {index: 1, reason: 'hover'},
+      {index: 2, reason: 'selected'},
+    ]);
+  });
+
+  it('labels no selected point when several are selected', () => {
+    expect(listLabeledPoints(null, new Set([2, 3]), [], 10)).toEqual([]);
+    expect(listLabeledPoints(null, new Set(), [], 10)).toEqual([]);
+  });
+
+  it('counts a single selected point alongside group labels', () => {
+    const labels = listLabeledPoints(null, new Set([2]), groups, 10);
+    expect(labels.map(label => label.index)).toEqual([2, 4, 5, 7]);
+  });
+
+  it('labels each group point once, in group order', () => {
+    const labels = listLabeledPoints(4, new Set(), groups, 10);
+    expect(labels).toEqual([
+      {index: 4, reason: 'hover'},
+      {index: 5, reason: 'group', color: 'red'},
+      {index: 7, reason: 'group', color: 'blue'},
+    ]);
+  });
+
+  it('skips hidden and out of range group points', () => {
+    const hidden = new Uint8Array(10);
+    hidden[5] = 1;
+    const labels = listLabeledPoints(null, new Set(), groups, 10, hidden);
+    expect(labels.map(label => label.index)).toEqual([4, 7]);
+  });
+});
@@ -0,0 +1,94 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+/**
+ * A named set of points highlighted with their own color and scale, shown
+ * alongside the selection.
+ */
+export interface HighlightGroup {
+  /** The indices of the points in the group. */
+  indices: number[];
+  /** The color of the group's points and labels. */
+  color: string;
+  /** The scale of the group's points, by default the selected point scale. */
+  scale?: number;
+  /** Whether to always show the labels of the group's points. */
+  showLabels?: boolean;
+  /**
+   * Where groups overlap, points take the color and scale of the group with
+   * the highest priority, or of the group set last among equals. 0 by default.
+   */
+  priority?: number;
+}
+
+/**
+ * Orders groups from lowest to highest priority, keeping the order they were
+ * set in among equals, so that drawing them in turn leaves the highest on top.
+ */
+export function sortHighlightGroups(groups: Map<string, HighlightGroup>) {
+  return [...groups.values()]
+    .map((group, order) => ({group, order}))
+    .sort(
+      (a, b) =>
+        (a.group.priority || 0) - (b.group.priority || 0) || a.order - b.order
+    )
+    .map(({group}) => group);
+}
+
+/** A point whose label is shown, and why. */
+export interface LabeledPoint {
+  index: number;
+  reason: 'hover' | 'selected' | 'group';
+  /** The color of the highlight group that labels the point. */
+  color?: string;
+}
+
+/**
+ * Lists the points whose labels are shown, in drawing order: the hovered
+ * point, the selected point when exactly one is selected, and then each other
+ * visible point of the groups that show labels, in the order given.
+ *
+ * @param hidden marks the points hidden by a filter or category, if any
+ */
+export function listLabeledPoints(
+  hoverPointIndex: number | null,
+  selectedPointIndices: Set<number>,
+  groups: HighlightGroup[],
+  pointCount: number,
+  hidden?: ArrayLike<number> | null
+): LabeledPoint[] {
+  const labels: LabeledPoint[] = [];
+  const labeled = new Set<number>();
+  if (hoverPointIndex !== null) {
+    labels.push({index: hoverPointIndex, reason: 'hover'});
+    labeled.add(hoverPointIndex);
+  }
+  if (selectedPointIndices.size === 1) {
+    const [index] = selectedPointIndices;
+    labels.push({index, reason: 'selected'});
+    labeled.add(index);
+  }
+  for (const group of groups) {
+    if (!group.showLabels) continue;
+    for (const index of group.indices) {
+      if (labeled.has(index) || (hidden && hidden[index])) continue;
+      if (index < 0 || index >= pointCount) continue;
+      labeled.add(index);
+      labels.push({index, reason: 'group', color: group.color});
+    }
+  }
+  return labels;
+}
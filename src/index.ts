@@ -15,6 +15,94 @@ See the License for the specific language governing permissions and
 limitations under the License.
 ==============================================================================*/
 
-export {ScatterGL, ScatterGLParams} from './scatter_gl';
-export {Dataset, Points, PointMetadata, Sequence, SpriteMetadata} from './data';
+export {
+  OpacityBy,
+  ScatterGL,
+  ScatterGLParams,
+  UpdateDatasetParams,
+} from './scatter_gl';
+export {
+  CategoricalColorScale,
+  ColorBy,
+  ColorByType,
+  ColorScale,
+  ContinuousColorScale,
+  getScaleColor,
+} from './color_by';
+export {
+  Dataset,
+  DatasetParams,
+  HighDimensionalDataset,
+  HighDimensionalDatasetParams,
+  MetadataColumns,
+  NonFiniteCoordinatesError,
+  Points,
+  PointMetadata,
+  Sequence,
+  SpriteMetadata,
+} from './data';
+export {NumericEncoding, ScaleType} from './encoding';
+export {
+  ExportFormat,
+  ExportedPoint,
+  exportPoints,
+  exportPointsBlob,
+  exportToCSV,
+  exportToJSON,
+} from './export';
+export {HighlightGroup} from './highlight_groups';
+export {
+  DistanceMetric,
+  NearestNeighborsParams,
+  Neighbor,
+  findNearestNeighbors,
+} from './knn';
+export {SearchMode, SearchParams} from './label_search';
+export {
+  DelimitedParams,
+  MetadataParams,
+  ParseError,
+  Tensors,
+  parseMetadata,
+  parseNpy,
+  parseNpyDataset,
+  parseProjectorDataset,
+  parseTensors,
+} from './loaders';
+export {
+  MetadataField,
+  MetadataFieldType,
+  MetadataSchema,
+} from './metadata_schema';
+export {Normalization, NormalizationMode} from './normalization';
+export {
+  categoricalPalettes,
+  continuousPalettes,
+  interpolateColors,
+} from './palettes';
+export {PCAParams, PCAResult} from './pca';
+export {
+  AndFilter,
+  EqualsFilter,
+  FieldValue,
+  InFilter,
+  MetadataFilter,
+  MetadataQuery,
+  NotFilter,
+  OrFilter,
+  PointPredicate,
+  QueryError,
+  RangeFilter,
+  RegexFilter,
+  queryPoints,
+} from './query';
+export {Category} from './scatter_plot_legend';
+export {
+  SelectionChange,
+  SelectionOperation,
+  applySelectionOperation,
+} from './selection';
+export {SelectionHistoryState} from './selection_history';
+export {TSNELayout, TSNEParams} from './tsne';
+export {EasingFunction, EasingName, TransitionParams} from './transition';
 export {InteractionMode, RenderMode, Vector, Point2D, Point3D} from './types';
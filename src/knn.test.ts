@@ -0,0 +1,76 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {Dataset, HighDimensionalDataset} from './data';
+import {findNearestNeighbors} from './knn';
+
+const LINE = new Dataset(
+  new Float32Array([0, 0, 1, 0, 3, 0, 6, 0, 10, 0]),
+  [],
+  2
+);
+
+describe('findNearestNeighbors', () => {
+  it('finds the closest points first, excluding the point itself', () => {
+    const neighbors = findNearestNeighbors(LINE, 2, {k: 3});
+    expect(neighbors).toEqual([
+      {index: 1, distance: 2},
+      {index: 0, distance: 3},
+      {index: 3, distance: 3},
+    ]);
+  });
+
+  it('skips excluded points', () => {
+    const neighbors = findNearestNeighbors(LINE, 0, {k: 2}, i => i === 1);
+    expect(neighbors.map(n => n.index)).toEqual([2, 3]);
+  });
+
+  it('returns every other point when k is larger than the dataset', () => {
+    expect(findNearestNeighbors(LINE, 4, {k: 10}).length).toBe(4);
+    expect(findNearestNeighbors(LINE, 4, {k: 0})).toEqual([]);
+  });
+
+  it('measures cosine distance between given vectors', () => {
+    const vectors = [
+      [1, 0],
+      [10, 1],
+      [0, 1],
+      [-1, 0],
+      [0, 0],
+    ];
+    const neighbors = findNearestNeighbors(LINE, 0, {
+      k: 4,
+      metric: 'cosine',
+      vectors,
+    });
+    expect(neighbors.map(n => n.index)).toEqual([1, 2, 4, 3]);
+    expect(neighbors[3].distance).toBeCloseTo(2);
+  });
+
+  it('uses the vectors of a high-dimensional dataset', () => {
+    const vectors: number[][] = [];
+    for (let i = 0; i < 6; i++) vectors.push([i, i % 2, i % 3, 0]);
+    const dataset = new HighDimensionalDataset(vectors);
+    const [nearest] = findNearestNeighbors(dataset, 0, {k: 1});
+    expect(nearest.index).toBe(1);
+    expect(nearest.distance).toBeCloseTo(Math.sqrt(3));
+  });
+
+  it('rejects bad points and vectors', () => {
+    expect(() => findNearestNeighbors(LINE, 5)).toThrow(RangeError);
+    expect(() => findNearestNeighbors(LINE, 0, {vectors: [[0]]})).toThrow();
+  });
+});
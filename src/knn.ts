@@ -0,0 +1,135 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {Dataset, HighDimensionalDataset} from './data';
+
+export type DistanceMetric = 'euclidean' | 'cosine';
+
+export interface Neighbor {
+  index: number;
+  distance: number;
+}
+
+export interface NearestNeighborsParams {
+  /** The number of neighbors to find, 10 by default. */
+  k?: number;
+  /** How to measure distance, 'euclidean' by default. */
+  metric?: DistanceMetric;
+  /**
+   * The vectors to measure distances between, one per point, by default the
+   * dataset's original coordinates or high-dimensional vectors.
+   */
+  vectors?: number[][] | Float32Array;
+}
+
+const DEFAULT_K = 10;
+
+/**
+ * Finds the k nearest neighbors of a point in a dataset's original data space,
+ * closest first, excluding the point itself.
+ *
+ * @param skip excludes points from the neighbors, e.g. hidden points
+ */
+export function findNearestNeighbors(
+  dataset: Dataset,
+  pointIndex: number,
+  params: NearestNeighborsParams = {},
+  skip?: (index: number) => boolean
+): Neighbor[] {
+  const {k = DEFAULT_K, metric = 'euclidean'} = params;
+  const n = dataset.pointCount;
+  if (k <= 0) return [];
+  if (pointIndex < 0 || pointIndex >= n) {
+    throw new RangeError(`Point index ${pointIndex} is out of range`);
+  }
+  const [vectors, dimensions] = getVectors(dataset, params.vectors);
+  const distance = metric === 'cosine' ? cosineDistance : euclideanDistance;
+
+  // Keep the k closest neighbors so far sorted by distance, so that most
+  // points are rejected by a single comparison with the farthest.
+  const neighbors: Neighbor[] = [];
+  const query = pointIndex * dimensions;
+  for (let i = 0; i < n; i++) {
+    if (i === pointIndex || (skip && skip(i))) continue;
+    const d = distance(vectors, query, i * dimensions, dimensions);
+    if (neighbors.length === k && !(d < neighbors[k - 1].distance)) continue;
+    let j = Math.min(neighbors.length, k - 1);
+    while (j > 0 && neighbors[j - 1].distance > d) {
+      neighbors[j] = neighbors[j - 1];
+      j--;
+    }
+    neighbors[j] = {index: i, distance: d};
+  }
+  return neighbors;
+}
+
+/** Packs the vectors to measure distances between, one row per point. */
+function getVectors(
+  dataset: Dataset,
+  vectors?: number[][] | Float32Array
+): [ArrayLike<number>, number] {
+  const n = dataset.pointCount;
+  if (vectors) {
+    const count = Array.isArray(vectors) ? vectors.length : n;
+    const dimensions = Array.isArray(vectors)
+      ? (vectors[0] || []).length
+      : vectors.length / n;
+    if (count !== n || !Number.isInteger(dimensions)) {
+      throw new Error(`Expected one vector for each of the ${n} points`);
+    }
+    if (!Array.isArray(vectors)) return [vectors, dimensions];
+    const packed = new Float32Array(n * dimensions);
+    vectors.forEach((vector, i) => packed.set(vector, i * dimensions));
+    return [packed, dimensions];
+  }
+  if (dataset instanceof HighDimensionalDataset) {
+    return [dataset.vectors, dataset.vectorDimensions];
+  }
+  return [dataset.positions, dataset.dimensions];
+}
+
+function euclideanDistance(
+  vectors: ArrayLike<number>,
+  a: number,
+  b: number,
+  dimensions: number
+) {
+  let sum = 0;
+  for (let d = 0; d < dimensions; d++) {
+    const difference = vectors[a + d] - vectors[b + d];
+    sum += difference * difference;
+  }
+  return Math.sqrt(sum);
+}
+
+/** One minus the cosine similarity, or 1 when either vector is zero. */
+function cosineDistance(
+  vectors: ArrayLike<number>,
+  a: number,
+  b: number,
+  dimensions: number
+) {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let d = 0; d < dimensions; d++) {
+    dot += vectors[a + d] * vectors[b + d];
+    normA += vectors[a + d] * vectors[a + d];
+    normB += vectors[b + d] * vectors[b + d];
+  }
+  if (normA === 0 || normB === 0) return 1;
+  return 1 - dot / Math.sqrt(normA * normB);
+}
@@ -0,0 +1,61 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {Dataset} from './data';
+import {searchLabels} from './label_search';
+import {QueryError} from './query';
+
+const LABELS = ['New York', 'Newark', 'York', 'Yonkers', 'new haven'];
+
+const dataset = new Dataset(
+  new Float32Array(LABELS.length * 2),
+  {label: LABELS, code: [10, 20, 30, 40, 50]},
+  2
+);
+
+describe('searchLabels', () => {
+  it('matches substrings, ignoring case by default', () => {
+    expect(searchLabels(dataset, 'new')).toEqual([0, 1, 4]);
+    expect(searchLabels(dataset, 'new', {caseSensitive: true})).toEqual([4]);
+    expect(searchLabels(dataset, '')).toEqual([]);
+  });
+
+  it('matches regular expressions', () => {
+    expect(searchLabels(dataset, '^y', {mode: 'regex'})).toEqual([2, 3]);
+    expect(() => searchLabels(dataset, '(', {mode: 'regex'})).toThrow(
+      QueryError
+    );
+  });
+
+  it('orders fuzzy matches best first', () => {
+    const matches = searchLabels(dataset, 'nyk', {mode: 'fuzzy'});
+    expect(matches).toEqual([0]);
+    const york = searchLabels(dataset, 'york', {mode: 'fuzzy'});
+    expect(york[0]).toBe(2);
+    expect(york).toContain(0);
+    expect(york).not.toContain(3);
+  });
+
+  it('searches other fields as strings', () => {
+    expect(searchLabels(dataset, '0', {field: 'code'}).length).toBe(5);
+    expect(searchLabels(dataset, '3', {field: 'code'})).toEqual([2]);
+    expect(searchLabels(dataset, 'x', {field: 'missing'})).toEqual([]);
+  });
+
+  it('skips excluded points', () => {
+    expect(searchLabels(dataset, 'york', {}, i => i === 0)).toEqual([2]);
+  });
+});
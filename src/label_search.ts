@@ -0,0 +1,110 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {Dataset} from './data';
+import {QueryError} from './query';
+
+/**
+ * How search text matches labels: as a substring, as a regular expression, or
+ * fuzzily, with the characters of the text appearing in order.
+ */
+export type SearchMode = 'substring' | 'regex' | 'fuzzy';
+
+export interface SearchParams {
+  /** The metadata field to search, 'label' by default. */
+  field?: string;
+  /** 'substring' by default. */
+  mode?: SearchMode;
+  /** Whether case must match, false by default. */
+  caseSensitive?: boolean;
+}
+
+/**
+ * Returns the indices of the points whose label matches search text. Fuzzy
+ * matches are ordered best first, and other matches by index.
+ *
+ * @param skip excludes points from the matches, e.g. hidden points
+ */
+export function searchLabels(
+  dataset: Dataset,
+  text: string,
+  params: SearchParams = {},
+  skip?: (index: number) => boolean
+): number[] {
+  const {field = 'label', mode = 'substring', caseSensitive = false} = params;
+  if (text === '') return [];
+  const normalize = (s: string) => (caseSensitive ? s : s.toLowerCase());
+  const labelOf = (i: number) => {
+    const value = dataset.getMetadataValue(i, field);
+    return value !== undefined ? String(value) : null;
+  };
+  const n = dataset.pointCount;
+
+  if (mode === 'fuzzy') {
+    const query = normalize(text);
+    const matches: Array<{index: number; score: number}> = [];
+    for (let i = 0; i < n; i++) {
+      const label = labelOf(i);
+      if (label === null || (skip && skip(i))) continue;
+      const score = fuzzyScore(query, normalize(label));
+      if (score > 0) matches.push({index: i, score});
+    }
+    matches.sort((a, b) => b.score - a.score || a.index - b.index);
+    return matches.map(m => m.index);
+  }
+
+  let test: (label: string) => boolean;
+  if (mode === 'regex') {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(text, caseSensitive ? '' : 'i');
+    } catch (e) {
+      throw new QueryError(`Invalid regex "${text}"`);
+    }
+    test = label => regex.test(label);
+  } else {
+    const query = normalize(text);
+    test = label => normalize(label).indexOf(query) !== -1;
+  }
+  const matches: number[] = [];
+  for (let i = 0; i < n; i++) {
+    const label = labelOf(i);
+    if (label === null || (skip && skip(i))) continue;
+    if (test(label)) matches.push(i);
+  }
+  return matches;
+}
+
+/**
+ * Scores how well a label matches a query whose characters must appear in it
+ * in order, or returns 0 if they don't. Runs of consecutive characters, and
+ * characters at the start of words, score higher.
+ */
+function fuzzyScore(query: string, label: string) {
+  let score = 0;
+  let run = 0;
+  let position = 0;
+  for (const char of query) {
+    const found = label.indexOf(char, position);
+    if (found === -1) return 0;
+    run = found === position && position > 0 ? run + 1 : 1;
+    const atWordStart = found === 0 || /[^a-z0-9]/i.test(label[found - 1]);
+    score += run + (atWordStart ? 1 : 0);
+    position = found + 1;
+  }
+  // Prefer shorter labels among equally good matches.
+  return score + query.length / label.length;
+}
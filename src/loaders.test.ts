@@ -0,0 +1,151 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {HighDimensionalDataset} from './data';
+import {
+  ParseError,
+  parseMetadata,
+  parseNpy,
+  parseProjectorDataset,
+  parseTensors,
+} from './loaders';
+
+/** Builds a little-endian float32 `.npy` file of the given shape. */
+function makeNpy(shape: number[], values: number[]) {
+  let header =
+    `{'descr': '<f4', 'fortran_order': False, ` +
+    `'shape': (${shape.join(', ')},), }`;
+  while ((10 + header.length + 1) % 16 !== 0) header += ' ';
+  header += '\n';
+  const buffer = new ArrayBuffer(10 + header.length + values.length * 4);
+  const bytes = new Uint8Array(buffer);
+  const view = new DataView(buffer);
+  bytes.set([0x93, 78, 85, 77, 80, 89, 1, 0]);
+  view.setUint16(8, header.length, true);
+  for (let i = 0; i < header.length; i++) {
+    bytes[10 + i] = header.charCodeAt(i);
+  }
+  values.forEach((value, i) => {
+    view.setFloat32(10 + header.length + i * 4, value, true);
+  });
+  return buffer;
+}
+
+describe('parseTensors', () => {
+  it('parses tab-separated vectors', () => {
+    const {vectors, dimensions} = parseTensors('1\t2\n3\t4\n');
+    expect(dimensions).toBe(2);
+    expect(Array.from(vectors)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('skips a detected header row', () => {
+    const {vectors} = parseTensors('x,y\n1,2\n', {delimiter: ','});
+    expect(Array.from(vectors)).toEqual([1, 2]);
+  });
+
+  it('reports the line of malformed rows', () => {
+    expect(() => parseTensors('1\t2\n3\n')).toThrow(ParseError);
+    expect(() => parseTensors('1\t2\n\n3\tx\n')).toThrow(/^Line 3: /);
+  });
+});
+
+describe('parseMetadata', () => {
+  it('converts numeric columns and leaves empty values undefined', () => {
+    const metadata = parseMetadata('label\tcount\na\t1\nb\t\n');
+    expect(metadata).toEqual([{label: 'a', count: 1}, {label: 'b'}]);
+  });
+
+  it('treats a single column as labels', () => {
+    expect(parseMetadata('a\nb\n')).toEqual([{label: 'a'}, {label: 'b'}]);
+  });
+
+  it('keeps empty labels in the middle of the file', () => {
+    expect(parseMetadata('a\n\nc\n')).toEqual([{label: 'a'}, {}, {label: 'c'}]);
+  });
+
+  it('keeps blank rows of multi-column metadata as empty values', () => {
+    const metadata = parseMetadata('label\tcount\na\t1\n\nc\t3');
+    expect(metadata).toEqual([
+      {label: 'a', count: 1},
+      {},
+      {label: 'c', count: 3},
+    ]);
+  });
+
+  it('keeps double quotes in tab-separated values', () => {
+    const metadata = parseMetadata('label\tnote\n"a\tb"\n');
+    expect(metadata).toEqual([{label: '"a', note: 'b"'}]);
+  });
+
+  it('splits quoted comma-separated values', () => {
+    const metadata = parseMetadata('label,note\n"a, b","say ""hi"""\n', {
+      delimiter: ',',
+    });
+    expect(metadata).toEqual([{label: 'a, b', note: 'say "hi"'}]);
+  });
+
+  it('supports quoting other delimiters when asked', () => {
+    const metadata = parseMetadata('label\tnote\n"a\tb"\tc\n', {
+      quoted: true,
+    });
+    expect(metadata).toEqual([{label: 'a\tb', note: 'c'}]);
+  });
+
+  it('uses the requested label column', () => {
+    const metadata = parseMetadata('id\tname\n1\tx\n', {labelColumn: 'name'});
+    expect(metadata[0].label).toBe('x');
+    expect(() => parseMetadata('id\tname\n1\tx\n', {labelColumn: 5})).toThrow(
+      ParseError
+    );
+  });
+});
+
+describe('parseNpy', () => {
+  it('reads a 2 dimensional float32 array', () => {
+    const {vectors, dimensions} = parseNpy(makeNpy([2, 3], [1, 2, 3, 4, 5, 6]));
+    expect(dimensions).toBe(3);
+    expect(Array.from(vectors)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('rejects other files', () => {
+    expect(() => parseNpy(new ArrayBuffer(16))).toThrow(ParseError);
+  });
+});
+
+describe('parseProjectorDataset', () => {
+  it('builds a high-dimensional dataset from wide tensors', () => {
+    const rows: string[] = [];
+    for (let i = 0; i < 10; i++) {
+      rows.push([i, i * 2, Math.sin(i), Math.cos(i)].join('\t'));
+    }
+    const dataset = parseProjectorDataset(rows.join('\n'));
+    expect(dataset).toBeInstanceOf(HighDimensionalDataset);
+    expect(dataset.pointCount).toBe(10);
+  });
+
+  it('lines up metadata with an empty label with the tensors', () => {
+    const dataset = parseProjectorDataset('1\t2\n3\t4\n5\t6\n', 'a\n\nc\n');
+    expect(dataset.pointCount).toBe(3);
+    expect(dataset.getMetadataValue(1, 'label')).toBeUndefined();
+    expect(dataset.getMetadataValue(2, 'label')).toBe('c');
+  });
+
+  it('rejects metadata for a different number of points', () => {
+    expect(() => parseProjectorDataset('1\t2\n3\t4\n', 'a\n')).toThrow(
+      ParseError
+    );
+  });
+});
@@ -0,0 +1,340 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+import {Dataset, HighDimensionalDataset, PointMetadata} from './data';
+
+const NPY_MAGIC = '\x93NUMPY';
+
+/** Thrown when tensor, metadata or .npy input is malformed. */
+export class ParseError extends Error {
+  /**
+   * @param message a description of the problem
+   * @param line the 1-based line of the input where the problem was found
+   */
+  constructor(message: string, public line?: number) {
+    super(line !== undefined ? `Line ${line}: ${message}` : message);
+    // Restore the prototype chain, which is lost when extending Error in ES5.
+    Object.setPrototypeOf(this, ParseError.prototype);
+    this.name = 'ParseError';
+  }
+}
+
+export interface DelimitedParams {
+  /** The column delimiter, a tab by default. Use ',' for CSV. */
+  delimiter?: string;
+  /**
+   * Whether the first row is a header. By default a header is detected: for
+   * tensors, when the first row is not numeric, and for metadata, when there
+   * is more than one column (matching the Embedding Projector format).
+   */
+  header?: boolean;
+  /**
+   * Whether values may be enclosed in double quotes, which can then contain
+   * delimiters and escaped `""` quotes. By default only comma-delimited text
+   * is quoted, so that quotes in tab-delimited values are kept as they are.
+   */
+  quoted?: boolean;
+}
+
+export interface MetadataParams extends DelimitedParams {
+  /**
+   * The column, by name or index, used as each point's `label`. Defaults to a
+   * column named "label", or else the first column.
+   */
+  labelColumn?: string | number;
+}
+
+export interface Tensors {
+  /** The vectors, packed as `dimensions` values per vector. */
+  vectors: Float32Array;
+  dimensions: number;
+}
+
+/**
+ * Parses tensors in the Embedding Projector `tensors.tsv` format: one vector
+ * per row, with one number per column.
+ */
+export function parseTensors(text: string, params: DelimitedParams = {}) {
+  const {delimiter = '\t', quoted = delimiter === ','} = params;
+  // Blank lines can't be vectors, so skipping them shifts no points.
+  const lines = splitLines(text).filter(line => !isBlank(line));
+  const rows = lines.map(line => splitRow(line.text, delimiter, quoted));
+
+  let header = params.header;
+  if (header === undefined) {
+    header = rows.length > 0 && rows[0].some(value => !isNumeric(value));
+  }
+  const start = header ? 1 : 0;
+  if (rows.length <= start) {
+    throw new ParseError('No tensors found');
+  }
+
+  const dimensions = rows[start].length;
+  const vectors = new Float32Array((rows.length - start) * dimensions);
+  for (let i = start; i < rows.length; i++) {
+    const row = rows[i];
+    if (row.length !== dimensions) {
+      throw new ParseError(
+        `Expected ${dimensions} values but found ${row.length}`,
+        lines[i].number
+      );
+    }
+    for (let d = 0; d < dimensions; d++) {
+      if (!isNumeric(row[d])) {
+        throw new ParseError(`Non-numeric value "${row[d]}"`, lines[i].number);
+      }
+      vectors[(i - start) * dimensions + d] = Number(row[d]);
+    }
+  }
+  return {vectors, dimensions};
+}
+
+/**
+ * Parses point metadata in the Embedding Projector `metadata.tsv` format.
+ * Columns where every value is numeric are converted to numbers, and empty
+ * values, including blank lines, are left undefined.
+ */
+export function parseMetadata(
+  text: string,
+  params: MetadataParams = {}
+): PointMetadata[] {
+  const {delimiter = '\t', quoted = delimiter === ','} = params;
+  const lines = splitLines(text);
+  if (lines.length === 0) return [];
+
+  // A blank line is a point whose values are all empty, such as an empty
+  // label, so it is kept to line up with the tensors.
+  const columnCount = splitRow(lines[0].text, delimiter, quoted).length;
+  const rows = lines.map(line =>
+    isBlank(line)
+      ? new Array<string>(columnCount).fill('')
+      : splitRow(line.text, delimiter, quoted)
+  );
+  const header = params.header !== undefined ? params.header : columnCount > 1;
+  const names = header
+    ? rows[0].map((name, i) => name || `column${i}`)
+    : rows[0].map((_, i) => (columnCount === 1 ? 'label' : `column${i}`));
+  const body = header ? rows.slice(1) : rows;
+  const bodyLines = header ? lines.slice(1) : lines;
+
+  body.forEach((row, i) => {
+    if (row.length !== columnCount) {
+      throw new ParseError(
+        `Expected ${columnCount} columns but found ${row.length}`,
+        bodyLines[i].number
+      );
+    }
+  });
+
+  const numericColumns = names.map((_, c) =>
+    body.every(row => row[c] === '' || isNumeric(row[c]))
+  );
+  const labelIndex = findLabelColumn(names, params.labelColumn);
+
+  return body.map(row => {
+    const metadata: PointMetadata = {};
+    names.forEach((name, c) => {
+      const value = row[c];
+      if (value === '') return;
+      metadata[name] = numericColumns[c] ? Number(value) : value;
+    });
+    if (row[labelIndex] !== '') {
+      metadata.label = row[labelIndex];
+    }
+    return metadata;
+  });
+}
+
+/**
+ * Builds a dataset from Embedding Projector tensors and (optionally)
+ * metadata text. Tensors with more than 3 dimensions produce a
+ * `HighDimensionalDataset`, displayed through PCA.
+ */
+export function parseProjectorDataset(
+  tensorsText: string,
+  metadataText?: string,
+  params: MetadataParams = {}
+) {
+  const {vectors, dimensions} = parseTensors(tensorsText, params);
+  const metadata =
+    metadataText !== undefined ? parseMetadata(metadataText, params) : [];
+  return makeDataset(vectors, dimensions, metadata);
+}
+
+/**
+ * Reads a 1 or 2 dimensional float array from the contents of a NumPy `.npy`
+ * file. Float64 data is converted to float32.
+ */
+export function parseNpy(buffer: ArrayBuffer): Tensors {
+  const bytes = new Uint8Array(buffer);
+  const magic = String.fromCharCode.apply(null, Array.from(bytes.slice(0, 6)));
+  if (magic !== NPY_MAGIC) {
+    throw new ParseError('Not a .npy file');
+  }
+
+  const view = new DataView(buffer);
+  const majorVersion = bytes[6];
+  const headerLength =
+    majorVersion === 1 ? view.getUint16(8, true) : view.getUint32(8, true);
+  const headerStart = majorVersion === 1 ? 10 : 12;
+  const header = String.fromCharCode.apply(
+    null,
+    Array.from(bytes.slice(headerStart, headerStart + headerLength))
+  );
+  const dataStart = headerStart + headerLength;
+
+  const descr = /'descr':\s*'([^']*)'/.exec(header);
+  const fortranOrder = /'fortran_order':\s*(True|False)/.exec(header);
+  const shapeMatch = /'shape':\s*\(([^)]*)\)/.exec(header);
+  if (!descr || !fortranOrder || !shapeMatch) {
+    throw new ParseError('Malformed .npy header');
+  }
+  if (fortranOrder[1] === 'True') {
+    throw new ParseError('Fortran-ordered .npy arrays are not supported');
+  }
+  const shape = shapeMatch[1]
+    .split(',')
+    .map(s => s.trim())
+    .filter(s => s !== '')
+    .map(Number);
+  if (shape.length < 1 || shape.length > 2) {
+    throw new ParseError(`Expected a 1 or 2 dimensional array, got ${shape}`);
+  }
+
+  const dtype = descr[1];
+  const littleEndian = dtype[0] !== '>';
+  const type = dtype.replace(/^[<>|=]/, '');
+  if (type !== 'f4' && type !== 'f8') {
+    throw new ParseError(`Unsupported .npy dtype "${dtype}"`);
+  }
+  const bytesPerValue = type === 'f4' ? 4 : 8;
+  const count = shape.reduce((a, b) => a * b, 1);
+  if (dataStart + count * bytesPerValue > buffer.byteLength) {
+    throw new ParseError('Unexpected end of .npy data');
+  }
+
+  const vectors = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    const offset = dataStart + i * bytesPerValue;
+    vectors[i] =
+      type === 'f4'
+        ? view.getFloat32(offset, littleEndian)
+        : view.getFloat64(offset, littleEndian);
+  }
+  return {vectors, dimensions: shape.length === 2 ? shape[1] : 1};
+}
+
+/**
+ * Builds a dataset from the contents of a NumPy `.npy` file of shape
+ * [points, dimensions], with optional metadata.
+ */
+export function parseNpyDataset(
+  buffer: ArrayBuffer,
+  metadata: PointMetadata[] = []
+) {
+  const {vectors, dimensions} = parseNpy(buffer);
+  return makeDataset(vectors, dimensions, metadata);
+}
+
+function makeDataset(
+  vectors: Float32Array,
+  dimensions: number,
+  metadata: PointMetadata[]
+): Dataset {
+  if (dimensions < 2) {
+    throw new ParseError(`Expected at least 2 dimensions, got ${dimensions}`);
+  }
+  const pointCount = vectors.length / dimensions;
+  if (metadata.length > 0 && metadata.length !== pointCount) {
+    throw new ParseError(
+      `Found ${pointCount} tensors but ${metadata.length} metadata rows`
+    );
+  }
+  if (dimensions === 2 || dimensions === 3) {
+    return Dataset.fromTypedArray(vectors, dimensions, metadata);
+  }
+  return new HighDimensionalDataset(vectors, metadata, {dimensions});
+}
+
+function findLabelColumn(names: string[], labelColumn?: string | number) {
+  if (typeof labelColumn === 'number') {
+    if (labelColumn < 0 || labelColumn >= names.length) {
+      throw new ParseError(`Label column ${labelColumn} does not exist`);
+    }
+    return labelColumn;
+  }
+  if (labelColumn !== undefined) {
+    const index = names.indexOf(labelColumn);
+    if (index === -1) {
+      throw new ParseError(`Label column "${labelColumn}" does not exist`);
+    }
+    return index;
+  }
+  const index = names.map(name => name.toLowerCase()).indexOf('label');
+  return index !== -1 ? index : 0;
+}
+
+function isNumeric(value: string) {
+  return value.trim() !== '' && isFinite(Number(value));
+}
+
+/**
+ * Splits text into its lines, keeping their 1-based numbers. Only the empty
+ * line after a trailing newline is dropped, since blank lines can be rows.
+ */
+function splitLines(text: string) {
+  const lines = text.split(/\r?\n/).map((text, i) => ({text, number: i + 1}));
+  if (lines.length > 0 && lines[lines.length - 1].text === '') lines.pop();
+  return lines;
+}
+
+function isBlank(line: {text: string}) {
+  return line.text.trim() === '';
+}
+
+/** Splits a row into values, optionally supporting double-quoted values. */
+function splitRow(line: string, delimiter: string, quotes: boolean) {
+  if (!quotes || line.indexOf('"') === -1) {
+    return line.split(delimiter).map(value => value.trim());
+  }
+  const values: string[] = [];
+  let value = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (line.substr(i, delimiter.length) === delimiter) {
+      values.push(value.trim());
+      value = '';
+      i += delimiter.length - 1;
+    } else {
+      value += char;
+    }
+  }
+  values.push(value.trim());
+  return values;
+}
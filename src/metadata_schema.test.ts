@@ -0,0 +1,133 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {Dataset} from './data';
+import {MAX_DISTINCT_VALUES, inferMetadataSchema} from './metadata_schema';
+
+type Value = number | string | undefined;
+
+function inferColumns(columns: {[key: string]: Value[]}) {
+  const keys = Object.keys(columns);
+  const pointCount = keys.length > 0 ? columns[keys[0]].length : 0;
+  return inferMetadataSchema(keys, pointCount, (i, key) => columns[key][i]);
+}
+
+describe('inferMetadataSchema', () => {
+  it('classifies numbers as numeric with their range', () => {
+    const {value} = inferColumns({value: [3, -1, 2, 3]});
+    expect(value.type).toBe('numeric');
+    expect(value.min).toBe(-1);
+    expect(value.max).toBe(3);
+    expect(value.distinctValues).toEqual([-1, 2, 3]);
+    expect(value.missingCount).toBe(0);
+  });
+
+  it('classifies repeated strings as categorical', () => {
+    const {color} = inferColumns({color: ['red', 'blue', 'red']});
+    expect(color.type).toBe('categorical');
+    expect(color.distinctValues).toEqual(['blue', 'red']);
+    expect(color.min).toBeUndefined();
+    expect(color.max).toBeUndefined();
+  });
+
+  it('classifies distinct strings as ids', () => {
+    const {name} = inferColumns({name: ['a', 'b', 'c']});
+    expect(name.type).toBe('id');
+  });
+
+  it('classifies a single string as categorical rather than an id', () => {
+    expect(inferColumns({name: ['a']}).name.type).toBe('categorical');
+  });
+
+  it('classifies mixed numbers and strings as categorical', () => {
+    const {mixed} = inferColumns({mixed: [1, 'a', 2]});
+    expect(mixed.type).toBe('categorical');
+    expect(mixed.distinctValues).toEqual([1, 2, 'a']);
+    expect(mixed.min).toBe(1);
+    expect(mixed.max).toBe(2);
+  });
+
+  it('counts undefined and empty values as missing', () => {
+    const {value} = inferColumns({value: [1, undefined, '', 2]});
+    expect(value.type).toBe('numeric');
+    expect(value.missingCount).toBe(2);
+    expect(value.distinctValues).toEqual([1, 2]);
+  });
+
+  it('classifies a field with no values as categorical', () => {
+    const {empty} = inferColumns({empty: [undefined, undefined]});
+    expect(empty.type).toBe('categorical');
+    expect(empty.missingCount).toBe(2);
+    expect(empty.distinctValues).toEqual([]);
+  });
+
+  it('reports distinct values up to MAX_DISTINCT_VALUES', () => {
+    const values = new Array(MAX_DISTINCT_VALUES);
+    for (let i = 0; i < MAX_DISTINCT_VALUES; i++) values[i] = i;
+    const {value} = inferColumns({value: values});
+    expect(value.distinctValues!.length).toBe(MAX_DISTINCT_VALUES);
+  });
+
+  it('omits distinct values beyond MAX_DISTINCT_VALUES', () => {
+    const numbers: Value[] = [];
+    const strings: Value[] = [];
+    for (let i = 0; i <= MAX_DISTINCT_VALUES; i++) {
+      numbers.push(i);
+      strings.push(`id${i}`);
+    }
+    const schema = inferColumns({numbers, strings});
+    expect(schema.numbers.type).toBe('numeric');
+    expect(schema.numbers.distinctValues).toBeUndefined();
+    expect(schema.numbers.max).toBe(MAX_DISTINCT_VALUES);
+    expect(schema.strings.type).toBe('id');
+    expect(schema.strings.distinctValues).toBeUndefined();
+  });
+});
+
+describe('Dataset.schema', () => {
+  it('is inferred on construction', () => {
+    const dataset = new Dataset(
+      [
+        [0, 0],
+        [1, 1],
+      ],
+      [
+        {label: 'a', value: 1},
+        {label: 'a', value: 2},
+      ]
+    );
+    expect(dataset.schema.label.type).toBe('categorical');
+    expect(dataset.schema.value.type).toBe('numeric');
+  });
+
+  it('is inferred from metadata columns', () => {
+    const dataset = Dataset.fromTypedArray(new Float32Array(4), 2, {
+      value: new Float32Array([1, 5]),
+      name: ['x', 'y'],
+    });
+    expect(dataset.schema.value.max).toBe(5);
+    expect(dataset.schema.name.type).toBe('id');
+  });
+
+  it('is inferred again when points are added or removed', () => {
+    const dataset = new Dataset([[0, 0]], [{value: 1}]);
+    dataset.appendPoints([[1, 1]], [{value: 'a'}]);
+    expect(dataset.schema.value.type).toBe('categorical');
+    dataset.removePoints([1]);
+    expect(dataset.schema.value.type).toBe('numeric');
+    expect(dataset.schema.value.max).toBe(1);
+  });
+});
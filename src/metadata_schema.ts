@@ -0,0 +1,121 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+/**
+ * Fields with more distinct values than this don't report them, since they
+ * are too many to show as categories.
+ */
+export const MAX_DISTINCT_VALUES = 1000;
+
+/**
+ * The kind of values in a metadata field: `numeric` when every value is a
+ * number, `id` when every value is a distinct string (e.g. names or keys), and
+ * `categorical` otherwise.
+ */
+export type MetadataFieldType = 'numeric' | 'categorical' | 'id';
+
+export interface MetadataField {
+  name: string;
+  type: MetadataFieldType;
+  /**
+   * The sorted distinct values, or undefined when there are more than
+   * `MAX_DISTINCT_VALUES` of them.
+   */
+  distinctValues?: Array<number | string>;
+  /** The number of points without a value for this field. */
+  missingCount: number;
+  /** The smallest value of a numeric field. */
+  min?: number;
+  /** The largest value of a numeric field. */
+  max?: number;
+}
+
+/** The inferred fields of a dataset's metadata, keyed by field name. */
+export interface MetadataSchema {
+  [key: string]: MetadataField;
+}
+
+/**
+ * Infers the type and statistics of each metadata field.
+ *
+ * @param keys the metadata field names
+ * @param pointCount the number of points
+ * @param getValue returns the value of a field for a point
+ */
+export function inferMetadataSchema(
+  keys: string[],
+  pointCount: number,
+  getValue: (index: number, key: string) => number | string | undefined
+): MetadataSchema {
+  const schema: MetadataSchema = {};
+  for (const key of keys) {
+    schema[key] = inferField(key, pointCount, i => getValue(i, key));
+  }
+  return schema;
+}
+
+function inferField(
+  name: string,
+  pointCount: number,
+  getValue: (index: number) => number | string | undefined
+): MetadataField {
+  let missingCount = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  // Strings are all tracked to detect ID fields, numbers only while few enough
+  // to report as distinct values.
+  const strings = new Set<string>();
+  let stringCount = 0;
+  let numbers: Set<number> | null = new Set<number>();
+
+  for (let i = 0; i < pointCount; i++) {
+    const value = getValue(i);
+    if (value === undefined || value === null || value === '') {
+      missingCount++;
+    } else if (typeof value === 'number') {
+      if (value < min) min = value;
+      if (value > max) max = value;
+      if (numbers) {
+        numbers.add(value);
+        if (numbers.size > MAX_DISTINCT_VALUES) numbers = null;
+      }
+    } else {
+      strings.add(value);
+      stringCount++;
+    }
+  }
+
+  const numberCount = pointCount - missingCount - stringCount;
+  let type: MetadataFieldType = 'categorical';
+  if (stringCount === 0 && numberCount > 0) {
+    type = 'numeric';
+  } else if (numberCount === 0 && stringCount > 1) {
+    type = strings.size === stringCount ? 'id' : 'categorical';
+  }
+
+  const field: MetadataField = {name, type, missingCount};
+  if (numbers && numbers.size + strings.size <= MAX_DISTINCT_VALUES) {
+    const sortedNumbers = [...numbers].sort((a, b) => a - b);
+    const sortedStrings = [...strings].sort();
+    field.distinctValues = [...sortedNumbers, ...sortedStrings];
+  }
+  if (numberCount > 0) {
+    field.min = min;
+    field.max = max;
+  }
+  return field;
+}
@@ -0,0 +1,126 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {getWorldFrame, normalizePositions} from './normalization';
+
+const SQUARE = new Float32Array([0, 0, 10, 0, 10, 5, 0, 5]);
+
+describe('normalizePositions', () => {
+  it('fits the data into the plot cube, keeping its aspect ratio', () => {
+    const positions = normalizePositions(SQUARE, 2);
+    expect(Array.from(positions)).toEqual([
+      -1,
+      -0.5,
+      0,
+      1,
+      -0.5,
+      0,
+      1,
+      0.5,
+      0,
+      -1,
+      0.5,
+      0,
+    ]);
+  });
+
+  it('fills the plot cube along each axis', () => {
+    const positions = normalizePositions(SQUARE, 2, {mode: 'perAxis'});
+    expect(Array.from(positions.subarray(6, 9))).toEqual([1, 1, 0]);
+  });
+
+  it('scales a fixed domain', () => {
+    const domain: Array<[number, number]> = [
+      [0, 20],
+      [0, 20],
+    ];
+    const positions = normalizePositions(SQUARE, 2, {mode: 'fixed', domain});
+    expect(Array.from(positions.subarray(6, 9))).toEqual([0, -0.5, 0]);
+    expect(() => normalizePositions(SQUARE, 2, {mode: 'fixed'})).toThrow();
+  });
+
+  it('scales the range between percentiles', () => {
+    const src = new Float32Array(101);
+    for (let i = 0; i < 101; i++) src[i] = i;
+    src[100] = 1000;
+    const positions = normalizePositions(src, 1, {
+      mode: 'robust',
+      percentiles: [0, 99],
+    });
+    expect(positions[0]).toBe(-1);
+    expect(positions[99 * 3]).toBe(1);
+  });
+
+  it('copies the coordinates without a normalization', () => {
+    const domain: Array<[number, number]> = [
+      [0, 10],
+      [0, 10],
+    ];
+    const positions = normalizePositions(SQUARE, 2, {mode: 'none', domain});
+    expect(Array.from(positions)).toEqual([
+      0,
+      0,
+      0,
+      10,
+      0,
+      0,
+      10,
+      5,
+      0,
+      0,
+      5,
+      0,
+    ]);
+  });
+});
+
+describe('getWorldFrame', () => {
+  it('frames the plot cube by default', () => {
+    const frame = {center: [0, 0, 0], halfSize: 1};
+    expect(getWorldFrame({mode: 'fit'}, 2)).toEqual(frame);
+    expect(getWorldFrame({mode: 'none'}, 3)).toEqual(frame);
+    const domain: Array<[number, number]> = [
+      [0, 1],
+      [0, 1],
+    ];
+    expect(getWorldFrame({mode: 'fixed', domain}, 2)).toEqual(frame);
+  });
+
+  it('frames the domain of an identity normalization', () => {
+    const domain: Array<[number, number]> = [
+      [0, 10],
+      [-2, 2],
+      [4, 6],
+    ];
+    expect(getWorldFrame({mode: 'none', domain}, 3)).toEqual({
+      center: [5, 0, 5],
+      halfSize: 5,
+    });
+    expect(getWorldFrame({mode: 'none', domain}, 2).center).toEqual([5, 0, 0]);
+  });
+
+  it('keeps the default size for an empty domain', () => {
+    const domain: Array<[number, number]> = [
+      [3, 3],
+      [3, 3],
+    ];
+    expect(getWorldFrame({mode: 'none', domain}, 2)).toEqual({
+      center: [3, 3, 0],
+      halfSize: 1,
+    });
+    expect(() => getWorldFrame({mode: 'none', domain: [[0, 1]]}, 2)).toThrow();
+  });
+});
@@ -0,0 +1,184 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+import {SCATTER_PLOT_CUBE_LENGTH} from './constants';
+import * as util from './util';
+
+const DEFAULT_PERCENTILES: [number, number] = [2, 98];
+
+/**
+ * How data coordinates are mapped into the plot:
+ * - `fit`: scales the data into the plot cube, preserving its aspect ratio.
+ * - `perAxis`: scales each axis independently to fill the plot cube.
+ * - `robust`: like `fit`, but scales the range between two percentiles of
+ *   each axis, so outliers don't squash the rest of the data.
+ * - `fixed`: like `fit`, but scales a given `domain` rather than the data's
+ *   extent, so plots sharing a domain are directly comparable.
+ * - `none`: uses the data coordinates as world coordinates, for data that is
+ *   already normalized. The camera frames the given `domain`, or -1 to 1
+ *   along each axis.
+ */
+export type NormalizationMode = 'fit' | 'perAxis' | 'robust' | 'fixed' | 'none';
+
+export interface Normalization {
+  mode: NormalizationMode;
+  /**
+   * The [min, max] of each axis, required for the `fixed` mode. In the `none`
+   * mode, the region of the data that the camera frames.
+   */
+  domain?: Array<[number, number]>;
+  /** The [low, high] percentiles scaled by the `robust` mode, [2, 98]. */
+  percentiles?: [number, number];
+}
+
+/** The region of world space that the default camera frames. */
+export interface WorldFrame {
+  center: [number, number, number];
+  /** Half the length of the largest side of the framed region. */
+  halfSize: number;
+}
+
+/**
+ * Finds the region of world space holding the normalized points. Only the
+ * `none` mode leaves the plot cube, when given a `domain`.
+ */
+export function getWorldFrame(
+  normalization: Normalization,
+  dimensions: number
+): WorldFrame {
+  const frame: WorldFrame = {
+    center: [0, 0, 0],
+    halfSize: SCATTER_PLOT_CUBE_LENGTH / 2,
+  };
+  const {domain} = normalization;
+  if (normalization.mode !== 'none' || !domain) return frame;
+
+  let halfSize = 0;
+  for (let d = 0; d < dimensions; d++) {
+    if (!domain[d]) {
+      throw new Error('A normalization domain requires a domain per axis');
+    }
+    const [min, max] = domain[d];
+    frame.center[d] = (min + max) / 2;
+    halfSize = Math.max(halfSize, Math.abs(max - min) / 2);
+  }
+  if (halfSize > 0 && isFinite(halfSize)) frame.halfSize = halfSize;
+  return frame;
+}
+
+/**
+ * Maps packed 2d or 3d data coordinates to world positions, packed as 3 values
+ * per point with a z of 0 for 2d data.
+ */
+export function normalizePositions(
+  src: Float32Array,
+  dimensions: number,
+  normalization: Normalization = {mode: 'fit'}
+): Float32Array {
+  const n = src.length / dimensions;
+  const positions = new Float32Array(n * 3);
+  if (normalization.mode === 'none') {
+    for (let i = 0; i < n; i++) {
+      for (let d = 0; d < dimensions; d++) {
+        positions[i * 3 + d] = src[i * dimensions + d];
+      }
+    }
+    return positions;
+  }
+
+  const domains = getDomains(src, dimensions, normalization);
+  const ranges = getRanges(domains, normalization.mode === 'perAxis');
+  for (let i = 0; i < n; i++) {
+    for (let d = 0; d < dimensions; d++) {
+      positions[i * 3 + d] = scaleAxis(
+        src[i * dimensions + d],
+        domains[d],
+        ranges[d]
+      );
+    }
+  }
+  return positions;
+}
+
+/** Finds the [min, max] data domain to scale along each axis. */
+function getDomains(
+  src: Float32Array,
+  dimensions: number,
+  normalization: Normalization
+) {
+  const domains: number[][] = [];
+  for (let d = 0; d < dimensions; d++) {
+    if (normalization.mode === 'fixed') {
+      if (!normalization.domain || !normalization.domain[d]) {
+        throw new Error('A fixed normalization requires a domain per axis');
+      }
+      domains.push(normalization.domain[d]);
+    } else if (normalization.mode === 'robust') {
+      const percentiles = normalization.percentiles || DEFAULT_PERCENTILES;
+      domains.push(percentileExtent(src, d, dimensions, percentiles));
+    } else {
+      domains.push(util.extent(src, d, dimensions));
+    }
+  }
+  return domains;
+}
+
+/**
+ * Finds the world range of each axis, centered on the origin and either
+ * filling the cube or sharing the scale of the largest domain.
+ */
+function getRanges(domains: number[][], perAxis: boolean) {
+  const halfCube = SCATTER_PLOT_CUBE_LENGTH / 2;
+  const getRange = (domain: number[]) => Math.abs(domain[1] - domain[0]);
+  const maxRange = Math.max(...domains.map(getRange));
+  return domains.map(domain => {
+    const extent =
+      perAxis || maxRange === 0
+        ? halfCube
+        : halfCube * (getRange(domain) / maxRange);
+    return [-extent, extent];
+  });
+}
+
+/** Like `util.scaleLinear`, mapping an empty domain to the range center. */
+function scaleAxis(value: number, domain: number[], range: number[]) {
+  if (domain[1] === domain[0]) {
+    return (range[0] + range[1]) / 2;
+  }
+  return util.scaleLinear(value, domain, range);
+}
+
+/** Computes the values at two percentiles of one component of packed data. */
+function percentileExtent(
+  src: Float32Array,
+  offset: number,
+  stride: number,
+  percentiles: [number, number]
+) {
+  const n = src.length / stride;
+  if (n === 0) return [0, 0];
+  const values = new Float32Array(n);
+  for (let i = 0; i < n; i++) {
+    values[i] = src[i * stride + offset];
+  }
+  values.sort();
+  const at = (percentile: number) => {
+    const index = Math.round((percentile / 100) * (n - 1));
+    return values[Math.min(Math.max(index, 0), n - 1)];
+  };
+  return [at(percentiles[0]), at(percentiles[1])];
+}
@@ -0,0 +1,65 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {categoricalPalettes, interpolateColors} from './palettes';
+
+describe('interpolateColors', () => {
+  const stops = ['#000000', '#ffffff', '#ff0000'];
+
+  it('returns the end stops at 0 and 1', () => {
+    expect(interpolateColors(stops, 0)).toEqual({r: 0, g: 0, b: 0, opacity: 1});
+    expect(interpolateColors(stops, 1)).toEqual({r: 1, g: 0, b: 0, opacity: 1});
+  });
+
+  it('returns the middle stop at its position', () => {
+    expect(interpolateColors(stops, 0.5)).toEqual({
+      r: 1,
+      g: 1,
+      b: 1,
+      opacity: 1,
+    });
+  });
+
+  it('blends linearly between neighboring stops', () => {
+    const color = interpolateColors(stops, 0.75);
+    expect(color.r).toBeCloseTo(1);
+    expect(color.g).toBeCloseTo(0.5);
+    expect(color.b).toBeCloseTo(0.5);
+  });
+
+  it('clamps positions outside [0, 1]', () => {
+    expect(interpolateColors(stops, -1)).toEqual(interpolateColors(stops, 0));
+    expect(interpolateColors(stops, 2)).toEqual(interpolateColors(stops, 1));
+  });
+
+  it('returns a single stop for any position', () => {
+    expect(interpolateColors(['#ff0000'], 0.3)).toEqual({
+      r: 1,
+      g: 0,
+      b: 0,
+      opacity: 1,
+    });
+  });
+});
+
+describe('categoricalPalettes', () => {
+  it('lists distinct colors in each palette', () => {
+    for (const name of Object.keys(categoricalPalettes)) {
+      const colors = categoricalPalettes[name];
+      expect(new Set(colors).size).toBe(colors.length);
+    }
+  });
+});
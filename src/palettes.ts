@@ -0,0 +1,188 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+import {Color, parseColor} from './color';
+
+/** Palettes of distinct colors, for categorical fields. */
+export const categoricalPalettes: {[name: string]: string[]} = {
+  tableau10: [
+    '#4e79a7',
+    '#f28e2c',
+    '#e15759',
+    '#76b7b2',
+    '#59a14f',
+    '#edc949',
+    '#af7aa1',
+    '#ff9da7',
+    '#9c755f',
+    '#bab0ab',
+  ],
+  category10: [
+    '#1f77b4',
+    '#ff7f0e',
+    '#2ca02c',
+    '#d62728',
+    '#9467bd',
+    '#8c564b',
+    '#e377c2',
+    '#7f7f7f',
+    '#bcbd22',
+    '#17becf',
+  ],
+  set2: [
+    '#66c2a5',
+    '#fc8d62',
+    '#8da0cb',
+    '#e78ac3',
+    '#a6d854',
+    '#ffd92f',
+    '#e5c494',
+    '#b3b3b3',
+  ],
+};
+
+/**
+ * Evenly spaced color stops of continuous colormaps, for numeric fields. The
+ * first group is sequential, the second diverging around their middle stop.
+ */
+export const continuousPalettes: {[name: string]: string[]} = {
+  viridis: [
+    '#440154',
+    '#482475',
+    '#414487',
+    '#355f8d',
+    '#2a788e',
+    '#21918c',
+    '#22a884',
+    '#44bf70',
+    '#7ad151',
+    '#bddf26',
+    '#fde725',
+  ],
+  magma: [
+    '#000004',
+    '#140e36',
+    '#3b0f70',
+    '#641a80',
+    '#8c2981',
+    '#b73779',
+    '#de4968',
+    '#f7705c',
+    '#fe9f6d',
+    '#fecf92',
+    '#fcfdbf',
+  ],
+  inferno: [
+    '#000004',
+    '#160b39',
+    '#420a68',
+    '#6a176e',
+    '#932667',
+    '#bc3754',
+    '#dd513a',
+    '#f37819',
+    '#fca50a',
+    '#f6d746',
+    '#fcffa4',
+  ],
+  plasma: [
+    '#0d0887',
+    '#41049d',
+    '#6a00a8',
+    '#8f0da4',
+    '#b12a90',
+    '#cc4778',
+    '#e16462',
+    '#f2844b',
+    '#fca636',
+    '#fcce25',
+    '#f0f921',
+  ],
+  blues: [
+    '#f7fbff',
+    '#deebf7',
+    '#c6dbef',
+    '#9ecae1',
+    '#6baed6',
+    '#4292c6',
+    '#2171b5',
+    '#08519c',
+    '#08306b',
+  ],
+
+  rdbu: [
+    '#67001f',
+    '#b2182b',
+    '#d6604d',
+    '#f4a582',
+    '#fddbc7',
+    '#f7f7f7',
+    '#d1e5f0',
+    '#92c5de',
+    '#4393c3',
+    '#2166ac',
+    '#053061',
+  ],
+  piyg: [
+    '#8e0152',
+    '#c51b7d',
+    '#de77ae',
+    '#f1b6da',
+    '#fde0ef',
+    '#f7f7f7',
+    '#e6f5d0',
+    '#b8e186',
+    '#7fbc41',
+    '#4d9221',
+    '#276419',
+  ],
+  spectral: [
+    '#9e0142',
+    '#d53e4f',
+    '#f46d43',
+    '#fdae61',
+    '#fee08b',
+    '#ffffbf',
+    '#e6f598',
+    '#abdda4',
+    '#66c2a5',
+    '#3288bd',
+    '#5e4fa2',
+  ],
+};
+
+/**
+ * Interpolates between evenly spaced color stops.
+ *
+ * @param stops the colors at 0, ..., 1
+ * @param t the position along the stops, clamped to [0, 1]
+ */
+export function interpolateColors(stops: string[], t: number): Color {
+  const position = Math.min(Math.max(t, 0), 1) * (stops.length - 1);
+  const index = Math.min(Math.floor(position), stops.length - 2);
+  if (index < 0) return parseColor(stops[0]);
+
+  const a = parseColor(stops[index]);
+  const b = parseColor(stops[index + 1]);
+  const f = position - index;
+  return {
+    r: a.r + (b.r - a.r) * f,
+    g: a.g + (b.g - a.g) * f,
+    b: a.b + (b.b - a.b) * f,
+    opacity: a.opacity + (b.opacity - a.opacity) * f,
+  };
+}
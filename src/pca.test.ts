@@ -0,0 +1,61 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {computePCA, projectOntoComponents} from './pca';
+
+/** Vectors along the (1, 1, 0) diagonal, with a little spread along z. */
+function makeVectors() {
+  const vectors = new Float32Array(100 * 3);
+  for (let i = 0; i < 100; i++) {
+    const t = i - 50;
+    vectors.set([t + 10, t - 10, Math.sin(i)], i * 3);
+  }
+  return vectors;
+}
+
+describe('computePCA', () => {
+  it('finds the direction of most variance first', () => {
+    const pca = computePCA(makeVectors(), 3);
+    const [x, y, z] = Array.from(pca.components.subarray(0, 3));
+    expect(Math.abs(x)).toBeCloseTo(Math.SQRT1_2, 3);
+    expect(Math.abs(y)).toBeCloseTo(Math.SQRT1_2, 3);
+    expect(z).toBeCloseTo(0, 2);
+    expect(pca.mean[0]).toBeCloseTo(9.5, 3);
+  });
+
+  it('computes at most one component per dimension', () => {
+    const pca = computePCA(makeVectors(), 3);
+    expect(pca.explainedVariance.length).toBe(3);
+    const total = pca.explainedVarianceRatio.reduce((a, b) => a + b, 0);
+    expect(total).toBeCloseTo(1, 5);
+    for (let i = 1; i < 3; i++) {
+      expect(pca.explainedVariance[i - 1]).toBeGreaterThanOrEqual(
+        pca.explainedVariance[i]
+      );
+    }
+  });
+});
+
+describe('projectOntoComponents', () => {
+  it('centers the projections on the mean', () => {
+    const vectors = makeVectors();
+    const pca = computePCA(vectors, 3);
+    const projections = projectOntoComponents(vectors, pca);
+    let sum = 0;
+    for (let i = 0; i < 100; i++) sum += projections[i * 3];
+    expect(sum / 100).toBeCloseTo(0, 3);
+  });
+});
@@ -0,0 +1,274 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+import * as util from './util';
+
+/** The maximum number of vectors used to estimate the covariance matrix. */
+const PCA_SAMPLE_SIZE = 50000;
+/**
+ * Vectors with more dimensions than this are randomly projected down before
+ * estimating the covariance matrix, which keeps the eigen decomposition fast.
+ */
+const PCA_SAMPLE_DIM = 200;
+const PCA_DEFAULT_COMPONENTS = 10;
+const POWER_ITERATION_MAX_STEPS = 500;
+const POWER_ITERATION_TOLERANCE = 1e-10;
+const RANDOM_SEED = 42;
+
+export interface PCAParams {
+  /** The number of principal components to compute. */
+  numComponents?: number;
+  /** The maximum number of vectors sampled to estimate the covariance. */
+  sampleSize?: number;
+  /** The number of dimensions high-dimensional vectors are projected to. */
+  sampleDimensions?: number;
+}
+
+export interface PCAResult {
+  /** The dimensionality of the input vectors. */
+  inputDimensions: number;
+  /** The mean of the input vectors, subtracted before projecting. */
+  mean: Float32Array;
+  /**
+   * The principal components in input space, in order of decreasing variance,
+   * packed as `inputDimensions` values per component.
+   */
+  components: Float32Array;
+  /** The variance along each principal component. */
+  explainedVariance: number[];
+  /** The fraction of the total variance along each principal component. */
+  explainedVarianceRatio: number[];
+}
+
+/**
+ * Computes the principal components of a set of vectors. The covariance is
+ * estimated from a random sample of the vectors, and vectors with many
+ * dimensions are randomly projected first, in which case the explained
+ * variance is relative to the projected data.
+ *
+ * @param vectors the vectors, packed as `dimensions` values per vector
+ * @param dimensions the dimensionality of each vector
+ */
+export function computePCA(
+  vectors: Float32Array,
+  dimensions: number,
+  params: PCAParams = {}
+): PCAResult {
+  const {
+    numComponents = PCA_DEFAULT_COMPONENTS,
+    sampleSize = PCA_SAMPLE_SIZE,
+    sampleDimensions = PCA_SAMPLE_DIM,
+  } = params;
+  const random = util.seededRandom(RANDOM_SEED);
+  const n = vectors.length / dimensions;
+
+  const mean = new Float32Array(dimensions);
+  for (let i = 0; i < n; i++) {
+    for (let d = 0; d < dimensions; d++) {
+      mean[d] += vectors[i * dimensions + d];
+    }
+  }
+  for (let d = 0; d < dimensions; d++) {
+    mean[d] /= n;
+  }
+
+  // Project to fewer dimensions with a random gaussian matrix if needed.
+  const projectedDimensions = Math.min(dimensions, sampleDimensions);
+  let projection: Float64Array | null = null;
+  if (projectedDimensions < dimensions) {
+    projection = new Float64Array(dimensions * projectedDimensions);
+    const scale = 1 / Math.sqrt(projectedDimensions);
+    for (let i = 0; i < projection.length; i++) {
+      projection[i] = gaussian(random) * scale;
+    }
+  }
+
+  // Accumulate the covariance of the centered (and projected) sample.
+  const sample = sampleIndices(n, sampleSize, random);
+  const k = projectedDimensions;
+  const covariance = new Float64Array(k * k);
+  const centered = new Float64Array(dimensions);
+  const row = new Float64Array(k);
+  for (const i of sample) {
+    for (let d = 0; d < dimensions; d++) {
+      centered[d] = vectors[i * dimensions + d] - mean[d];
+    }
+    if (projection) {
+      row.fill(0);
+      for (let d = 0; d < dimensions; d++) {
+        const value = centered[d];
+        for (let p = 0; p < k; p++) {
+          row[p] += value * projection[d * k + p];
+        }
+      }
+    } else {
+      row.set(centered);
+    }
+    for (let a = 0; a < k; a++) {
+      for (let b = a; b < k; b++) {
+        covariance[a * k + b] += row[a] * row[b];
+      }
+    }
+  }
+  const denominator = Math.max(sample.length - 1, 1);
+  for (let a = 0; a < k; a++) {
+    for (let b = a; b < k; b++) {
+      covariance[a * k + b] /= denominator;
+      covariance[b * k + a] = covariance[a * k + b];
+    }
+  }
+
+  let totalVariance = 0;
+  for (let a = 0; a < k; a++) {
+    totalVariance += covariance[a * k + a];
+  }
+
+  const componentCount = Math.min(numComponents, k);
+  const components = new Float32Array(componentCount * dimensions);
+  const explainedVariance: number[] = [];
+  for (let c = 0; c < componentCount; c++) {
+    const [eigenvalue, eigenvector] = powerIteration(covariance, k, random);
+    explainedVariance.push(eigenvalue);
+
+    // Deflate, so the next iteration finds the next largest eigenvector.
+    for (let a = 0; a < k; a++) {
+      for (let b = 0; b < k; b++) {
+        covariance[a * k + b] -= eigenvalue * eigenvector[a] * eigenvector[b];
+      }
+    }
+
+    // Map the eigenvector back into input space.
+    for (let d = 0; d < dimensions; d++) {
+      let value = 0;
+      if (projection) {
+        for (let p = 0; p < k; p++) {
+          value += projection[d * k + p] * eigenvector[p];
+        }
+      } else {
+        value = eigenvector[d];
+      }
+      components[c * dimensions + d] = value;
+    }
+  }
+
+  return {
+    inputDimensions: dimensions,
+    mean,
+    components,
+    explainedVariance,
+    explainedVarianceRatio: explainedVariance.map(v =>
+      totalVariance > 0 ? v / totalVariance : 0
+    ),
+  };
+}
+
+/**
+ * Projects vectors onto all of the principal components, returning the
+ * projections packed as one value per component per vector.
+ */
+export function projectOntoComponents(
+  vectors: Float32Array,
+  pca: PCAResult
+): Float32Array {
+  const {inputDimensions: dimensions, mean, components} = pca;
+  const n = vectors.length / dimensions;
+  const componentCount = components.length / dimensions;
+  const projections = new Float32Array(n * componentCount);
+  for (let i = 0; i < n; i++) {
+    for (let c = 0; c < componentCount; c++) {
+      let value = 0;
+      for (let d = 0; d < dimensions; d++) {
+        value +=
+          (vectors[i * dimensions + d] - mean[d]) *
+          components[c * dimensions + d];
+      }
+      projections[i * componentCount + c] = value;
+    }
+  }
+  return projections;
+}
+
+/** Finds the largest eigenvalue and its eigenvector of a symmetric matrix. */
+function powerIteration(
+  matrix: Float64Array,
+  size: number,
+  random: () => number
+): [number, Float64Array] {
+  let vector = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    vector[i] = random() - 0.5;
+  }
+  normalize(vector);
+
+  let eigenvalue = 0;
+  let next = new Float64Array(size);
+  for (let step = 0; step < POWER_ITERATION_MAX_STEPS; step++) {
+    for (let a = 0; a < size; a++) {
+      let value = 0;
+      for (let b = 0; b < size; b++) {
+        value += matrix[a * size + b] * vector[b];
+      }
+      next[a] = value;
+    }
+    const norm = normalize(next);
+    [vector, next] = [next, vector];
+    const converged = Math.abs(norm - eigenvalue) <= POWER_ITERATION_TOLERANCE;
+    eigenvalue = norm;
+    if (converged || norm === 0) break;
+  }
+  return [eigenvalue, vector];
+}
+
+/** Normalizes a vector in place, returning its original length. */
+function normalize(vector: Float64Array) {
+  let sum = 0;
+  for (let i = 0; i < vector.length; i++) {
+    sum += vector[i] * vector[i];
+  }
+  const norm = Math.sqrt(sum);
+  if (norm > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= norm;
+    }
+  }
+  return norm;
+}
+
+/** Picks up to `sampleSize` distinct indices from [0, n). */
+function sampleIndices(n: number, sampleSize: number, random: () => number) {
+  const indices = new Uint32Array(n);
+  for (let i = 0; i < n; i++) {
+    indices[i] = i;
+  }
+  if (n <= sampleSize) return indices;
+
+  // Partial Fisher-Yates shuffle.
+  for (let i = 0; i < sampleSize; i++) {
+    const j = i + Math.floor(random() * (n - i));
+    const swap = indices[i];
+    indices[i] = indices[j];
+    indices[j] = swap;
+  }
+  return indices.subarray(0, sampleSize);
+}
+
+/** Draws a standard normal value using the Box-Muller transform. */
+function gaussian(random: () => number) {
+  const u = 1 - random();
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -0,0 +1,133 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import * as THREE from 'three';
+
+import {
+  PickingColors,
+  PickingEncoding,
+  choosePickingEncoding,
+  getPickingPassCount,
+  readPickingIds,
+} from './picking';
+
+const IDS = [0, 1, 255, 0xfffffe, 0x1000000, 0x1234567, 2 ** 30 + 5];
+
+function makeRenderer(isWebGL2: boolean, extensions: string[]) {
+  return ({
+    capabilities: {isWebGL2},
+    extensions: {has: (name: string) => extensions.indexOf(name) !== -1},
+  } as unknown) as THREE.WebGLRenderer;
+}
+
+/**
+ * Fakes a renderer whose picking targets hold the colors of one vertex per
+ * pixel, followed by a pixel of the clear color.
+ */
+function makeTargetRenderer(colors: PickingColors, encoding: PickingEncoding) {
+  return ({
+    readRenderTargetPixels(
+      target: {pass: number},
+      x: number,
+      y: number,
+      width: number,
+      height: number,
+      buffer: Float32Array | Uint8Array
+    ) {
+      const passColors = colors.get(encoding, target.pass);
+      for (let i = 0; i < width * height; i++) {
+        for (let channel = 0; channel < 4; channel++) {
+          const value = i < IDS.length ? passColors[i * 4 + channel] : 1;
+          buffer[i * 4 + channel] =
+            encoding === 'float' ? value : Math.round(value * 255);
+        }
+      }
+    },
+  } as unknown) as THREE.WebGLRenderer;
+}
+
+describe('choosePickingEncoding', () => {
+  it('uses 8-bit colors while ids fit in 24 bits', () => {
+    expect(choosePickingEncoding(makeRenderer(true, []), 1e6)).toBe('rgb');
+  });
+
+  it('uses float targets where the renderer supports them', () => {
+    const webgl2 = makeRenderer(true, ['EXT_color_buffer_float']);
+    expect(choosePickingEncoding(webgl2, 2e7)).toBe('float');
+    const webgl1 = makeRenderer(false, [
+      'OES_texture_float',
+      'WEBGL_color_buffer_float',
+    ]);
+    expect(choosePickingEncoding(webgl1, 2e7)).toBe('float');
+  });
+
+  it('falls back to two passes without float targets', () => {
+    const renderer = makeRenderer(true, []);
+    expect(choosePickingEncoding(renderer, 2e7)).toBe('multipass');
+    expect(getPickingPassCount('multipass')).toBe(2);
+    expect(getPickingPassCount('float')).toBe(1);
+  });
+});
+
+describe('readPickingIds', () => {
+  const pixelCount = IDS.length + 1;
+
+  for (const encoding of ['float', 'multipass'] as PickingEncoding[]) {
+    it(`decodes the ids written by ${encoding} picking colors`, () => {
+      const colors = new PickingColors(IDS.length, vertex => IDS[vertex]);
+      const targets = ([{pass: 0}, {pass: 1}].slice(
+        0,
+        getPickingPassCount(encoding)
+      ) as unknown) as THREE.WebGLRenderTarget[];
+      const renderer = makeTargetRenderer(colors, encoding);
+      const ids = readPickingIds(
+        renderer,
+        targets,
+        encoding,
+        0,
+        0,
+        pixelCount,
+        1
+      );
+      expect(ids).toEqual(IDS);
+    });
+  }
+
+  it('decodes 24-bit ids written by rgb picking colors', () => {
+    const colors = new PickingColors(IDS.length, vertex => IDS[vertex]);
+    const targets = ([{pass: 0}] as unknown) as THREE.WebGLRenderTarget[];
+    const renderer = makeTargetRenderer(colors, 'rgb');
+    const ids = readPickingIds(renderer, targets, 'rgb', 0, 0, pixelCount, 1);
+    expect(ids.slice(0, 4)).toEqual(IDS.slice(0, 4));
+  });
+});
+
+describe('PickingColors', () => {
+  it('fills the colors of each encoding and pass once', () => {
+    const getPointId = jest.fn((vertex: number) => vertex);
+    const colors = new PickingColors(3, getPointId);
+    const rgb = colors.get('rgb', 0);
+    expect(colors.get('rgb', 0)).toBe(rgb);
+    expect(getPointId).toHaveBeenCalledTimes(3);
+    expect(colors.get('float', 0)).not.toBe(rgb);
+    expect(Array.from(colors.get('float', 0).subarray(8, 12))).toEqual([
+      2,
+      0,
+      0,
+      1,
+    ]);
+  });
+});
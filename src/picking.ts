@@ -0,0 +1,200 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import * as THREE from 'three';
+
+import {RGBA_NUM_ELEMENTS} from './constants';
+import * as util from './util';
+
+/**
+ * How point ids are written to the picking render targets:
+ * - 'rgb' packs ids into the 8-bit channels of one target, for fewer than
+ *   0xffffff points.
+ * - 'float' writes the low and high 24 bits of ids to the red and green
+ *   channels of a float target.
+ * - 'multipass' renders the low and high 24 bits of ids to two 8-bit targets,
+ *   for GPUs that can't render to float targets.
+ */
+export type PickingEncoding = 'rgb' | 'float' | 'multipass';
+
+/**
+ * The color picking targets are cleared to, which decodes to no point in every
+ * encoding.
+ */
+export const PICKING_CLEAR_COLOR = 0xffffff;
+
+/** The 8-bit id that stands for no point. */
+const EMPTY_RGB_ID = 0xffffff;
+/** The scale of the high 24 bits of ids. */
+const HIGH_ID_SCALE = 0x1000000;
+
+/** Picks the cheapest encoding that can tell apart a number of points. */
+export function choosePickingEncoding(
+  renderer: THREE.WebGLRenderer,
+  pointCount: number
+): PickingEncoding {
+  if (pointCount <= EMPTY_RGB_ID) return 'rgb';
+  return supportsFloatPicking(renderer) ? 'float' : 'multipass';
+}
+
+/** Whether the renderer can render to and read back float targets. */
+function supportsFloatPicking(renderer: THREE.WebGLRenderer) {
+  const {capabilities, extensions} = renderer;
+  if (capabilities.isWebGL2) return extensions.has('EXT_color_buffer_float');
+  return (
+    extensions.has('OES_texture_float') &&
+    extensions.has('WEBGL_color_buffer_float')
+  );
+}
+
+/** Returns the number of render passes that an encoding needs. */
+export function getPickingPassCount(encoding: PickingEncoding) {
+  return encoding === 'multipass' ? 2 : 1;
+}
+
+/** Creates a render target for each of an encoding's passes. */
+export function createPickingTargets(
+  width: number,
+  height: number,
+  encoding: PickingEncoding
+): THREE.WebGLRenderTarget[] {
+  const targets: THREE.WebGLRenderTarget[] = [];
+  for (let pass = 0; pass < getPickingPassCount(encoding); pass++) {
+    const target = new THREE.WebGLRenderTarget(width, height, {
+      type: encoding === 'float' ? THREE.FloatType : THREE.UnsignedByteType,
+    });
+    // Ids can't be blended, so never filter them.
+    target.texture.minFilter = THREE.NearestFilter;
+    target.texture.magFilter = THREE.NearestFilter;
+    targets.push(target);
+  }
+  return targets;
+}
+
+/**
+ * Reads the ids of the points drawn to a rectangle of the picking targets,
+ * one per pixel that has a point.
+ *
+ * @param x The left of the rectangle, in pixels.
+ * @param y The bottom of the rectangle, in pixels from the bottom.
+ */
+export function readPickingIds(
+  renderer: THREE.WebGLRenderer,
+  targets: THREE.WebGLRenderTarget[],
+  encoding: PickingEncoding,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): number[] {
+  const pixelCount = width * height;
+  const buffers = targets.map(target => {
+    const buffer =
+      encoding === 'float'
+        ? new Float32Array(pixelCount * 4)
+        : new Uint8Array(pixelCount * 4);
+    renderer.readRenderTargetPixels(target, x, y, width, height, buffer);
+    return buffer;
+  });
+
+  const ids: number[] = [];
+  for (let i = 0; i < pixelCount; i++) {
+    const id = decodePixel(buffers, i * 4, encoding);
+    if (id !== -1) {
+      ids.push(id);
+    }
+  }
+  return ids;
+}
+
+/** Decodes the id of the point at a pixel, or -1 when there is none. */
+function decodePixel(
+  buffers: Array<Float32Array | Uint8Array>,
+  offset: number,
+  encoding: PickingEncoding
+) {
+  const decode = (buffer: Float32Array | Uint8Array) =>
+    util.decodeIdFromRgb(
+      buffer[offset],
+      buffer[offset + 1],
+      buffer[offset + 2]
+    );
+  if (encoding === 'float') {
+    const [pixels] = buffers;
+    // Points are drawn with a blue of zero, and the clear color has one.
+    if (pixels[offset + 2] !== 0) return -1;
+    return pixels[offset] + pixels[offset + 1] * HIGH_ID_SCALE;
+  }
+  if (encoding === 'multipass') {
+    // The high bits never reach the empty id, unlike the low bits.
+    const high = decode(buffers[1]);
+    if (high === EMPTY_RGB_ID) return -1;
+    return decode(buffers[0]) + high * HIGH_ID_SCALE;
+  }
+  const id = decode(buffers[0]);
+  return id === EMPTY_RGB_ID ? -1 : id;
+}
+
+/**
+ * The colors that encode the ids of the points drawn by a visualizer's
+ * vertices, filled for an encoding and pass when they are first rendered.
+ */
+export class PickingColors {
+  private encoding: PickingEncoding | null = null;
+  private passColors: Float32Array[] = [];
+
+  /**
+   * @param vertexCount The number of vertices.
+   * @param getPointId Returns the id of the point a vertex draws.
+   */
+  constructor(
+    private vertexCount: number,
+    private getPointId: (vertex: number) => number
+  ) {}
+
+  get(encoding: PickingEncoding, pass: number): Float32Array {
+    if (encoding !== this.encoding) {
+      this.encoding = encoding;
+      this.passColors = [];
+    }
+    if (this.passColors[pass] == null) {
+      this.passColors[pass] = this.fill(encoding, pass);
+    }
+    return this.passColors[pass];
+  }
+
+  private fill(encoding: PickingEncoding, pass: number) {
+    const colors = new Float32Array(this.vertexCount * RGBA_NUM_ELEMENTS);
+    for (let i = 0; i < this.vertexCount; i++) {
+      const id = this.getPointId(i);
+      const low = id % HIGH_ID_SCALE;
+      const high = Math.floor(id / HIGH_ID_SCALE);
+      const offset = i * RGBA_NUM_ELEMENTS;
+      if (encoding === 'float') {
+        colors[offset] = low;
+        colors[offset + 1] = high;
+        colors[offset + 2] = 0;
+      } else {
+        const encodedId = util.encodeIdToRgb(pass === 1 ? high : low);
+        colors[offset] = encodedId.r;
+        colors[offset + 1] = encodedId.g;
+        colors[offset + 2] = encodedId.b;
+      }
+      colors[offset + 3] = 1; // Alpha
+    }
+    return colors;
+  }
+}
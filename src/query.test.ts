@@ -0,0 +1,141 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {Dataset, PointMetadata} from './data';
+import {MetadataFilter, QueryError, queryPoints} from './query';
+
+const ROWS: PointMetadata[] = [
+  {label: 'apple', kind: 'fruit', weight: 150},
+  {label: 'carrot', kind: 'vegetable', weight: 60},
+  {label: 'banana', kind: 'fruit', weight: 120},
+  {label: 'Apricot', kind: 'fruit'},
+];
+
+function makeDataset(metadata = ROWS) {
+  return new Dataset(new Float32Array(ROWS.length * 2), metadata, 2);
+}
+
+function makeColumnsDataset() {
+  return new Dataset(
+    new Float32Array(ROWS.length * 2),
+    {
+      label: ROWS.map(row => row.label),
+      kind: ROWS.map(row => row.kind),
+      weight: new Float32Array([150, 60, 120, NaN]),
+    },
+    2
+  );
+}
+
+describe('queryPoints', () => {
+  const dataset = makeDataset();
+
+  it('matches by equality and membership', () => {
+    expect(queryPoints(dataset, {field: 'kind', eq: 'fruit'})).toEqual([
+      0,
+      2,
+      3,
+    ]);
+    expect(
+      queryPoints(dataset, {field: 'label', in: ['carrot', 'banana']})
+    ).toEqual([1, 2]);
+  });
+
+  it('matches numeric ranges, open at either end', () => {
+    expect(
+      queryPoints(dataset, {field: 'weight', range: [100, null]})
+    ).toEqual([0, 2]);
+    expect(
+      queryPoints(dataset, {field: 'weight', range: [null, 120]})
+    ).toEqual([1, 2]);
+  });
+
+  it('matches regular expressions, ignoring the global flag', () => {
+    const filter = {field: 'label', regex: '^ap', flags: 'gi'};
+    expect(queryPoints(dataset, filter)).toEqual([0, 3]);
+  });
+
+  it('combines filters', () => {
+    const filter: MetadataFilter = {
+      and: [
+        {field: 'kind', eq: 'fruit'},
+        {
+          or: [
+            {field: 'weight', range: [130, null]},
+            {not: {field: 'weight', range: [null, null]}},
+          ],
+        },
+      ],
+    };
+    expect(queryPoints(dataset, filter)).toEqual([0, 3]);
+  });
+
+  it('calls predicates with each point', () => {
+    const indices = queryPoints(
+      dataset,
+      (metadata, i) => metadata.kind === 'fruit' && i > 0
+    );
+    expect(indices).toEqual([2, 3]);
+  });
+
+  it('calls predicates with empty metadata for points without it', () => {
+    const partial = makeDataset(ROWS.slice(0, 2));
+    expect(queryPoints(partial, metadata => !metadata.label)).toEqual([2, 3]);
+  });
+
+  it('queries metadata columns without building the rows', () => {
+    const columns = makeColumnsDataset();
+    const spy = jest.spyOn(columns, 'metadata', 'get');
+    expect(
+      queryPoints(columns, metadata => metadata.kind === 'fruit')
+    ).toEqual([0, 2, 3]);
+    expect(queryPoints(columns, {field: 'weight', range: [100, 200]})).toEqual([
+      0,
+      2,
+    ]);
+    expect(spy).not.toHaveBeenCalled();
+  });
+
+  it('rejects malformed filters', () => {
+    const bad = ([
+      null,
+      {eq: 1},
+      {field: 'label'},
+      {field: 'label', regex: '('},
+    ] as unknown) as MetadataFilter[];
+    for (const filter of bad) {
+      expect(() => queryPoints(dataset, filter)).toThrow(QueryError);
+    }
+  });
+});
+
+describe('Dataset.getMetadataRow', () => {
+  it('builds the row of a point from metadata columns', () => {
+    const columns = makeColumnsDataset();
+    expect(columns.getMetadataRow(1)).toEqual({
+      label: 'carrot',
+      kind: 'vegetable',
+      weight: 60,
+    });
+    expect(columns.getMetadataRow(1)).not.toBe(columns.getMetadataRow(1));
+  });
+
+  it('returns the stored row, or an empty one', () => {
+    const rows = makeDataset(ROWS.slice(0, 2));
+    expect(rows.getMetadataRow(0)).toBe(ROWS[0]);
+    expect(rows.getMetadataRow(3)).toEqual({});
+  });
+});
@@ -0,0 +1,171 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {Dataset, PointMetadata} from './data';
+
+export type FieldValue = number | string;
+
+/** Matches points whose field equals a value. */
+export interface EqualsFilter {
+  field: string;
+  eq: FieldValue;
+}
+
+/** Matches points whose field is one of a set of values. */
+export interface InFilter {
+  field: string;
+  in: FieldValue[];
+}
+
+/**
+ * Matches points whose numeric field is within an inclusive [min, max] range.
+ * Either end may be null to leave it open.
+ */
+export interface RangeFilter {
+  field: string;
+  range: [number | null, number | null];
+}
+
+/** Matches points whose field, as a string, matches a regular expression. */
+export interface RegexFilter {
+  field: string;
+  regex: string;
+  flags?: string;
+}
+
+export interface AndFilter {
+  and: MetadataFilter[];
+}
+
+export interface OrFilter {
+  or: MetadataFilter[];
+}
+
+export interface NotFilter {
+  not: MetadataFilter;
+}
+
+/** A serializable expression over the metadata fields of a point. */
+export type MetadataFilter =
+  | EqualsFilter
+  | InFilter
+  | RangeFilter
+  | RegexFilter
+  | AndFilter
+  | OrFilter
+  | NotFilter;
+
+/**
+ * Tests a point's metadata. With metadata columns, each point's row is built
+ * for the call, so changes to it are not kept.
+ */
+export type PointPredicate = (
+  metadata: PointMetadata,
+  index: number
+) => boolean;
+
+/** Either a predicate function or a serializable filter expression. */
+export type MetadataQuery = PointPredicate | MetadataFilter;
+
+/** Thrown for a malformed filter expression. */
+export class QueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    // Restore the prototype chain, which is lost when extending Error in ES5.
+    Object.setPrototypeOf(this, QueryError.prototype);
+    this.name = 'QueryError';
+  }
+}
+
+type Matcher = (index: number) => boolean;
+
+/** Returns the indices of the points that match a query, in order. */
+export function queryPoints(dataset: Dataset, query: MetadataQuery): number[] {
+  let matches: Matcher;
+  if (typeof query === 'function') {
+    matches = i => query(dataset.getMetadataRow(i), i);
+  } else {
+    matches = compileFilter(dataset, query);
+  }
+  const pointIndices: number[] = [];
+  for (let i = 0; i < dataset.pointCount; i++) {
+    if (matches(i)) pointIndices.push(i);
+  }
+  return pointIndices;
+}
+
+/** Compiles a filter expression once into a function of a point index. */
+function compileFilter(dataset: Dataset, filter: MetadataFilter): Matcher {
+  if (filter === null || typeof filter !== 'object') {
+    throw new QueryError(`Expected a filter object, got ${filter}`);
+  }
+  if ('and' in filter) {
+    const matchers = filter.and.map(f => compileFilter(dataset, f));
+    return i => matchers.every(matches => matches(i));
+  }
+  if ('or' in filter) {
+    const matchers = filter.or.map(f => compileFilter(dataset, f));
+    return i => matchers.some(matches => matches(i));
+  }
+  if ('not' in filter) {
+    const matcher = compileFilter(dataset, filter.not);
+    return i => !matcher(i);
+  }
+
+  const {field} = filter;
+  if (typeof field !== 'string') {
+    throw new QueryError(
+      `Expected a field in filter ${JSON.stringify(filter)}`
+    );
+  }
+  const valueOf = (i: number) => dataset.getMetadataValue(i, field);
+  if ('eq' in filter) {
+    const {eq} = filter;
+    return i => valueOf(i) === eq;
+  }
+  if ('in' in filter) {
+    const values = new Set<FieldValue | undefined>(filter.in);
+    return i => values.has(valueOf(i));
+  }
+  if ('range' in filter) {
+    const [min, max] = filter.range;
+    return i => {
+      const value = valueOf(i);
+      return (
+        typeof value === 'number' &&
+        (min === null || value >= min) &&
+        (max === null || value <= max)
+      );
+    };
+  }
+  if ('regex' in filter) {
+    let regex: RegExp;
+    try {
+      // Drop the global and sticky flags, which make test() stateful.
+      regex = new RegExp(
+        filter.regex,
+        (filter.flags || '').replace(/[gy]/g, '')
+      );
+    } catch (e) {
+      throw new QueryError(`Invalid regex "${filter.regex}"`);
+    }
+    return i => {
+      const value = valueOf(i);
+      return value !== undefined && regex.test(String(value));
+    };
+  }
+  throw new QueryError(`Unknown filter ${JSON.stringify(filter)}`);
+}
@@ -17,6 +17,8 @@ limitations under the License.
 
 import * as THREE from 'three';
 
+import {PickingEncoding} from './picking';
+
 /**
  * LabelRenderParams describes the set of points that should have labels
  * rendered next to them.
@@ -62,6 +64,9 @@ export class RenderContext {
     public labels: LabelRenderParams | undefined,
     public polylineColors: {[polylineIndex: number]: Float32Array},
     public polylineOpacities: Float32Array,
-    public polylineWidths: Float32Array
+    public polylineWidths: Float32Array,
+    public pickingEncoding: PickingEncoding = 'rgb',
+    /** Which of the picking encoding's passes is being rendered. */
+    public pickingPass = 0
   ) {}
 }
@@ -22,12 +22,55 @@ import {
   OrbitControlParams,
 } from './scatter_plot';
 import {parseColor} from './color';
-import {Dataset, Sequence} from './data';
+import {
+  ColorBy,
+  ColorScale,
+  generateColorScaleArray,
+  makeColorScale,
+} from './color_by';
+import {
+  Dataset,
+  HighDimensionalDataset,
+  MetadataColumns,
+  PointMetadata,
+  Points,
+  Sequence,
+} from './data';
+import {
+  NumericEncoding,
+  checkEncoding,
+  generateEncodingArray,
+} from './encoding';
+import {ExportFormat, exportPoints, exportPointsBlob} from './export';
+import {
+  HighlightGroup,
+  listLabeledPoints,
+  sortHighlightGroups,
+} from './highlight_groups';
+import {NearestNeighborsParams, Neighbor, findNearestNeighbors} from './knn';
+import {SearchParams, searchLabels} from './label_search';
+import {MetadataQuery, QueryError, queryPoints} from './query';
+import {
+  Normalization,
+  getWorldFrame,
+  normalizePositions,
+} from './normalization';
 import {LabelRenderParams} from './render';
+import {Category, ScatterPlotLegend} from './scatter_plot_legend';
+import {ScatterPlotSearchBox} from './scatter_plot_search_box';
+import {
+  SelectionChange,
+  SelectionOperation,
+  SelectionSource,
+  applySelectionOperation,
+  diffSelections,
+} from './selection';
+import {SelectionHistory, SelectionHistoryState} from './selection_history';
 import {Styles, UserStyles, makeStyles} from './styles';
+import {TransitionParams} from './transition';
 import {InteractionMode, Optional, RenderMode} from './types';
 import * as util from './util';
-import {SCATTER_PLOT_CUBE_LENGTH, RGBA_NUM_ELEMENTS} from './constants';
+import {RGBA_NUM_ELEMENTS} from './constants';
 
 import {ScatterPlotVisualizer} from './scatter_plot_visualizer';
 import {ScatterPlotVisualizer3DLabels} from './scatter_plot_visualizer_3d_labels';
@@ -43,26 +86,65 @@ export type PointColorer = (
 
 export interface ScatterGLParams {
   camera?: CameraParams;
+  colorBy?: ColorBy | null;
+  filter?: MetadataQuery | null;
+  highlightGroups?: {[name: string]: HighlightGroup};
+  hoverRadius?: number;
   onHover?: (point: number | null) => void;
   onClick?: (points: number | null) => void;
-  onSelect?: (points: number[]) => void;
+  onSelect?: (points: number[], change: SelectionChange) => void;
   onCameraMove?: OnCameraMoveListener;
+  onHistoryChange?: (state: SelectionHistoryState) => void;
+  normalization?: Normalization;
   pointColorer?: PointColorer;
   renderMode?: RenderMode;
   rotateOnStart?: boolean;
+  searchParams?: SearchParams;
   selectEnabled?: boolean;
+  neighborsOnClick?: NearestNeighborsParams | null;
+  historyDepth?: number;
+  undoShortcuts?: boolean;
   showLabelsOnHover?: boolean;
+  opacityBy?: OpacityBy | null;
+  showLegend?: boolean;
+  showSearchBox?: boolean;
+  sizeBy?: NumericEncoding | null;
+  snapToNearest?: boolean;
   styles?: UserStyles;
   orbitControls?: Optional<OrbitControlParams>;
 }
 
+const DEFAULT_SIZE_BY_RANGE: [number, number] = [0.5, 2];
+const DEFAULT_SELECTION_HISTORY_DEPTH = 100;
+const DEFAULT_OPACITY_BY_RANGE: [number, number] = [0.1, 1];
+const DEFAULT_NEAREST_POINT_DISTANCE = 10;
+
+/**
+ * The opacity of each point, from 0 to 1, or an encoding of a numeric field or
+ * function as opacity.
+ */
+export type OpacityBy = ArrayLike<number> | NumericEncoding;
+
+export interface UpdateDatasetParams {
+  /** Animates the points from their previous to their new positions. */
+  transition?: TransitionParams;
+}
+
 /**
  * ScatterGL - An interactive, webGL-accelerate 2D/3D scatter plot renderer.
  */
 export class ScatterGL {
   private containerElement: HTMLElement;
   private dataset?: Dataset;
+  private normalization: Normalization = {mode: 'fit'};
   private pointColorer: PointColorer | null = null;
+  private colorBy: ColorBy | null = null;
+  private colorScale: ColorScale | null = null;
+  /** The colors of every point under the color scale, and their fallback. */
+  private colorScaleColors: {
+    fallback: string;
+    colors: Float32Array;
+  } | null = null;
   private scatterPlot: ScatterPlot;
   private sequences: Sequence[] = [];
   private styles: Styles;
@@ -70,7 +152,42 @@ export class ScatterGL {
   private renderMode = RenderMode.POINT;
   private rotateOnStart = true;
   private selectEnabled = true;
+  private neighborsOnClick: NearestNeighborsParams | null = null;
+  private selectionHistory = new SelectionHistory(
+    DEFAULT_SELECTION_HISTORY_DEPTH
+  );
+  private undoShortcuts = false;
+  /** The selection from before the gesture still being dragged, if any. */
+  private selectionGesture: {
+    previous: Set<number>;
+    changed: boolean;
+  } | null = null;
   private showLabelsOnHover = true;
+  private showLegend = true;
+  private showSearchBox = false;
+
+  private legend?: ScatterPlotLegend;
+  /** Categories of the color scale whose points are hidden. */
+  private hiddenCategories = new Set<Category>();
+  /** Marks the points of hidden categories, when there are any. */
+  private hiddenPointMask: Uint8Array | null = null;
+  private highlightedCategory: Category | null = null;
+
+  private highlightGroups = new Map<string, HighlightGroup>();
+  private filter: MetadataQuery | null = null;
+
+  private searchBox?: ScatterPlotSearchBox;
+  private searchParams: SearchParams = {};
+  private searchText = '';
+  /** The points matching the search text, when computed. */
+  private searchMatches: number[] | null = null;
+  /** The position among the matches of the match stepped to, or -1. */
+  private searchFocus = -1;
+
+  private sizeBy: NumericEncoding | null = null;
+  private sizeByScales: Float32Array | null = null;
+  private opacityBy: OpacityBy | null = null;
+  private opacityByValues: ArrayLike<number> | null = null;
 
   /* Visualizers, maintained by ScatterGL but used by ScatterPlot */
   private canvasLabelsVisualizer?: ScatterPlotVisualizerCanvasLabels;
@@ -84,8 +201,14 @@ export class ScatterGL {
 
   private clickCallback: (point: number | null) => void = () => {};
   private hoverCallback: (point: number | null) => void = () => {};
-  private selectCallback: (points: number[]) => void = () => {};
+  private selectCallback: (
+    points: number[],
+    change: SelectionChange
+  ) => void = () => {};
   private cameraMoveCallback: OnCameraMoveListener = () => {};
+  private selectionHistoryCallback: (
+    state: SelectionHistoryState
+  ) => void = () => {};
 
   constructor(containerElement: HTMLElement, params: ScatterGLParams = {}) {
     this.containerElement = containerElement;
@@ -100,24 +223,90 @@ export class ScatterGL {
       onHover: this.onHover,
       onSelect: this.onSelect,
       selectEnabled: this.selectEnabled,
+      hoverRadius: params.hoverRadius,
+      snapToNearest: params.snapToNearest,
       styles: this.styles,
       orbitControlParams: params.orbitControls,
     });
 
     this.scatterPlot.onCameraMove(this.cameraMoveCallback);
+    // The undo shortcuts only apply while the plot has focus, so make its
+    // container focusable by clicking or tabbing into it.
+    if (this.undoShortcuts && !containerElement.hasAttribute('tabindex')) {
+      containerElement.tabIndex = 0;
+    }
+    containerElement.addEventListener('keydown', this.onKeyDown);
+
+    if (this.showLegend) {
+      this.legend = new ScatterPlotLegend(
+        containerElement,
+        this.styles,
+        category => this.setHighlightedCategory(category),
+        category =>
+          this.setCategoryVisibility(
+            category,
+            this.hiddenCategories.has(category)
+          )
+      );
+    }
+
+    if (this.showSearchBox) {
+      this.searchBox = new ScatterPlotSearchBox(
+        containerElement,
+        this.styles,
+        text => {
+          try {
+            this.searchLabels(text);
+          } catch (e) {
+            if (!(e instanceof QueryError)) throw e;
+            this.searchBox!.setStatus(null, -1, e.message);
+          }
+        },
+        step => this.focusSearchMatch(step)
+      );
+    }
   }
 
   private setParameters(p: ScatterGLParams) {
+    if (p.colorBy !== undefined) this.colorBy = p.colorBy;
+    if (p.filter !== undefined) this.filter = p.filter;
+    if (p.highlightGroups !== undefined) {
+      for (const name of Object.keys(p.highlightGroups)) {
+        this.highlightGroups.set(name, p.highlightGroups[name]);
+      }
+    }
     if (p.onClick !== undefined) this.clickCallback = p.onClick;
     if (p.onHover !== undefined) this.hoverCallback = p.onHover;
     if (p.onSelect !== undefined) this.selectCallback = p.onSelect;
     if (p.onCameraMove !== undefined) this.cameraMoveCallback = p.onCameraMove;
+    if (p.onHistoryChange !== undefined)
+      this.selectionHistoryCallback = p.onHistoryChange;
+    if (p.normalization !== undefined) this.normalization = p.normalization;
     if (p.pointColorer !== undefined) this.pointColorer = p.pointColorer;
     if (p.renderMode !== undefined) this.renderMode = p.renderMode;
     if (p.rotateOnStart !== undefined) this.rotateOnStart = p.rotateOnStart;
     if (p.selectEnabled !== undefined) this.selectEnabled = p.selectEnabled;
+    if (p.neighborsOnClick !== undefined)
+      this.neighborsOnClick = p.neighborsOnClick;
+    if (p.historyDepth !== undefined)
+      this.selectionHistory.maxDepth = p.historyDepth;
+    if (p.undoShortcuts !== undefined) this.undoShortcuts = p.undoShortcuts;
     if (p.showLabelsOnHover !== undefined)
       this.showLabelsOnHover = p.showLabelsOnHover;
+    if (p.showLegend !== undefined) this.showLegend = p.showLegend;
+    if (p.showSearchBox !== undefined) this.showSearchBox = p.showSearchBox;
+    if (p.searchParams !== undefined) this.searchParams = p.searchParams;
+    if (p.sizeBy !== undefined) this.sizeBy = p.sizeBy;
+    if (p.opacityBy !== undefined) this.opacityBy = p.opacityBy;
+  }
+
+  /** Removes the event listeners, legend and search box from the container. */
+  dispose() {
+    this.containerElement.removeEventListener('keydown', this.onKeyDown);
+    if (this.legend) this.legend.dispose();
+    if (this.searchBox) this.searchBox.dispose();
+    this.legend = undefined;
+    this.searchBox = undefined;
   }
 
   render(dataset: Dataset) {
@@ -186,6 +375,23 @@ export class ScatterGL {
     this.scatterPlot.setInteractionMode(InteractionMode.SELECT);
   }
 
+  setLassoMode() {
+    this.scatterPlot.setInteractionMode(InteractionMode.LASSO);
+  }
+
+  setBrushMode() {
+    this.scatterPlot.setInteractionMode(InteractionMode.BRUSH);
+  }
+
+  /** Sets the radius of the brush in brush mode, in CSS pixels. */
+  setBrushRadius(radius: number) {
+    if (!(radius > 0)) {
+      throw new RangeError('The brush radius must be positive');
+    }
+    this.styles.select.brushRadius = radius;
+    this.scatterPlot.setBrushRadius(radius);
+  }
+
   setDimensions(nDimensions: number) {
     const outsideRange = nDimensions < 2 || nDimensions > 3;
     const moreThanDataset =
@@ -198,12 +404,191 @@ export class ScatterGL {
     }
   }
 
+  /**
+   * Sets how data coordinates are mapped into the plot, optionally animating
+   * the points to their new positions.
+   */
+  setNormalization(
+    normalization: Normalization,
+    params: UpdateDatasetParams = {}
+  ) {
+    this.normalization = normalization;
+    const transitionEnd = this.updateScatterPlotPositions(params.transition);
+    this.renderScatterPlot();
+    return transitionEnd;
+  }
+
   setPointColorer(pointColorer: PointColorer | null) {
     this.pointColorer = pointColorer;
     this.updateScatterPlotAttributes();
     this.renderScatterPlot();
   }
 
+  /**
+   * Colors points by a metadata field. Selected points keep their color while
+   * unselected points fade, and a `PointColorer`, if set, takes precedence.
+   */
+  setColorBy(colorBy: ColorBy | null) {
+    this.colorBy = colorBy;
+    this.hiddenCategories.clear();
+    this.highlightedCategory = null;
+    this.resetColorScale();
+    this.updateScatterPlotAttributes();
+    this.renderScatterPlot();
+  }
+
+  /**
+   * Shows or hides the points of a category of the categorical `colorBy`.
+   * Hidden points can't be hovered or selected.
+   */
+  setCategoryVisibility(category: Category, visible: boolean) {
+    if (visible) {
+      this.hiddenCategories.delete(category);
+    } else {
+      this.hiddenCategories.add(category);
+    }
+    this.resetHiddenPoints();
+    this.updateLegend();
+    this.updateScatterPlotAttributes();
+    this.renderScatterPlot();
+  }
+
+  /** Returns the hidden categories of the categorical `colorBy`. */
+  getHiddenCategories(): Category[] {
+    return [...this.hiddenCategories];
+  }
+
+  /**
+   * Highlights the points of a category of the categorical `colorBy` by
+   * fading all other points, or removes the highlight when null.
+   */
+  setHighlightedCategory(category: Category | null) {
+    this.highlightedCategory = category;
+    this.updateScatterPlotAttributes();
+    this.renderScatterPlot();
+  }
+
+  /** Returns the color scale of the current `colorBy`, if any. */
+  getColorScale(): ColorScale | null {
+    const {colorBy, dataset} = this;
+    if (!colorBy || !dataset) return null;
+    if (!this.colorScale) {
+      this.colorScale = makeColorScale(dataset, colorBy);
+    }
+    return this.colorScale;
+  }
+
+  /**
+   * Sizes points by a numeric metadata field or function, by default from 0.5
+   * to 2 times their default size. Selected and hovered points are enlarged
+   * relative to their encoded size.
+   */
+  setSizeBy(sizeBy: NumericEncoding | null) {
+    if (sizeBy) checkEncoding(sizeBy);
+    this.sizeBy = sizeBy;
+    this.sizeByScales = null;
+    this.updateScatterPlotAttributes();
+    this.renderScatterPlot();
+  }
+
+  /**
+   * Sets the opacity of each point, either directly or by encoding a numeric
+   * field or function, by default from 0.1 to 1. The opacity multiplies that
+   * of the point's color, except for the hovered point.
+   */
+  setOpacityBy(opacityBy: OpacityBy | null) {
+    if (opacityBy && !isArrayLike(opacityBy)) checkEncoding(opacityBy);
+    this.opacityBy = opacityBy;
+    this.opacityByValues = null;
+    this.updateScatterPlotAttributes();
+    this.renderScatterPlot();
+  }
+
+  private getOpacityByValues(dataset: Dataset) {
+    const {opacityBy} = this;
+    if (!opacityBy) return null;
+    if (!this.opacityByValues) {
+      this.opacityByValues = isArrayLike(opacityBy)
+        ? opacityBy
+        : generateEncodingArray(
+            dataset,
+            opacityBy,
+            DEFAULT_OPACITY_BY_RANGE,
+            1
+          );
+    }
+    return this.opacityByValues;
+  }
+
+  /** Clears everything computed from the dataset's metadata. */
+  private resetEncodings() {
+    this.sizeByScales = null;
+    this.opacityByValues = null;
+    this.resetColorScale();
+  }
+
+  private resetColorScale() {
+    this.colorScale = null;
+    this.colorScaleColors = null;
+    this.resetHiddenPoints();
+    this.updateLegend();
+  }
+
+  private updateLegend() {
+    if (this.legend) {
+      this.legend.setColorScale(this.getColorScale(), this.hiddenCategories);
+    }
+  }
+
+  /** Clears everything that depends on which points are hidden. */
+  private resetHiddenPoints() {
+    this.hiddenPointMask = null;
+    this.searchMatches = null;
+    this.searchFocus = -1;
+  }
+
+  /**
+   * Marks the points of hidden categories and the points the filter leaves
+   * out, or returns null if none are hidden.
+   */
+  private getHiddenPointMask(dataset: Dataset) {
+    const scale = this.getColorScale();
+    const {filter, hiddenCategories} = this;
+    const categoryField =
+      scale && scale.type === 'categorical' && hiddenCategories.size > 0
+        ? scale.field
+        : null;
+    if (categoryField === null && !filter) return null;
+    if (!this.hiddenPointMask) {
+      const mask = new Uint8Array(dataset.pointCount);
+      if (filter) {
+        mask.fill(1);
+        for (const i of queryPoints(dataset, filter)) mask[i] = 0;
+      }
+      if (categoryField !== null) {
+        for (let i = 0; i < mask.length; i++) {
+          const value = dataset.getMetadataValue(i, categoryField);
+          if (value !== undefined && hiddenCategories.has(value)) {
+            mask[i] = 1;
+          }
+        }
+      }
+      this.hiddenPointMask = mask;
+    }
+    return this.hiddenPointMask;
+  }
+
+  private getColorScaleColors(dataset: Dataset, fallback: string) {
+    const scale = this.getColorScale();
+    if (!scale) return null;
+    const cached = this.colorScaleColors;
+    if (!cached || cached.fallback !== fallback) {
+      const colors = generateColorScaleArray(dataset, scale, fallback);
+      this.colorScaleColors = {fallback, colors};
+    }
+    return this.colorScaleColors!.colors;
+  }
+
   private callPointColorer(pointColorer: PointColorer, index: number) {
     return pointColorer(index, this.selectedPointIndices, this.hoverPointIndex);
   }
@@ -220,6 +605,18 @@ export class ScatterGL {
     this.scatterPlot.resize();
   }
 
+  /**
+   * Returns the index of the visible point nearest to a position in the
+   * container, or null when none is within `maxDistance` CSS pixels of it.
+   */
+  findNearestPoint(
+    offsetX: number,
+    offsetY: number,
+    maxDistance = DEFAULT_NEAREST_POINT_DISTANCE
+  ): number | null {
+    return this.scatterPlot.findNearestPoint(offsetX, offsetY, maxDistance);
+  }
+
   private onHover = (pointIndex: number | null) => {
     this.hoverCallback(pointIndex);
     this.hoverPointIndex = pointIndex;
@@ -231,24 +628,549 @@ export class ScatterGL {
     this.clickCallback(pointIndex);
   };
 
-  select = (pointIndices: number[]) => {
+  /**
+   * Selects points by index, by default replacing the selection, or combining
+   * them with it by the given operation.
+   */
+  select = (
+    pointIndices: number[],
+    operation: SelectionOperation = 'replace'
+  ) => {
     if (!this.selectEnabled) return;
+    this.selectionGesture = null;
+    const previous = this.selectedPointIndices;
+    this.selectedPointIndices = applySelectionOperation(
+      previous,
+      pointIndices,
+      operation
+    );
+    const {added, removed} = diffSelections(
+      previous,
+      this.selectedPointIndices,
+      operation
+    );
+    if (added.length > 0 || removed.length > 0) {
+      this.selectionHistory.push(previous);
+      this.selectionHistoryCallback(this.selectionHistory.state);
+    }
+    this.updateScatterPlotAttributes();
+    this.renderScatterPlot();
+  };
+
+  /**
+   * Restores the selection before the last change, returning whether there
+   * was one to go back to.
+   */
+  undoSelection() {
+    const previous = this.selectionHistory.undo(this.selectedPointIndices);
+    if (!previous) return false;
+    this.restoreSelection(previous);
+    return true;
+  }
+
+  /**
+   * Restores the selection last undone, returning whether there was one to go
+   * forward to.
+   */
+  redoSelection() {
+    const next = this.selectionHistory.redo(this.selectedPointIndices);
+    if (!next) return false;
+    this.restoreSelection(next);
+    return true;
+  }
+
+  /** Returns whether there are selections to undo or redo. */
+  getSelectionHistoryState(): SelectionHistoryState {
+    return this.selectionHistory.state;
+  }
+
+  clearSelectionHistory() {
+    this.selectionHistory.clear();
+    this.selectionHistoryCallback(this.selectionHistory.state);
+  }
+
+  private restoreSelection(pointIndices: number[]) {
+    const previous = this.selectedPointIndices;
+    this.selectionGesture = null;
     this.selectedPointIndices = new Set(pointIndices);
     this.updateScatterPlotAttributes();
     this.renderScatterPlot();
+    this.selectCallback(
+      pointIndices,
+      diffSelections(previous, this.selectedPointIndices, 'replace')
+    );
+    this.selectionHistoryCallback(this.selectionHistory.state);
+  }
+
+  /**
+   * Undoes the selection on ctrl+z (cmd+z), and redoes it on ctrl+shift+z or
+   * ctrl+y, while the plot has focus but not when typing into an editable
+   * element such as the search box.
+   */
+  private onKeyDown = (e: KeyboardEvent) => {
+    if (!this.undoShortcuts || !(e.ctrlKey || e.metaKey)) return;
+    const target = e.target as HTMLElement | null;
+    if (
+      target &&
+      (target.isContentEditable ||
+        target.tagName === 'INPUT' ||
+        target.tagName === 'TEXTAREA' ||
+        target.tagName === 'SELECT')
+    ) {
+      return;
+    }
+    const key = e.key.toLowerCase();
+    const handled =
+      key === 'z' && !e.shiftKey
+        ? this.undoSelection()
+        : (key === 'z' && e.shiftKey) || key === 'y'
+        ? this.redoSelection()
+        : false;
+    if (handled) e.preventDefault();
   };
 
-  private onSelect = (pointIndices: number[]) => {
+  /**
+   * Applies a selection gesture. While a brush is dragged, each update applies
+   * its whole stroke to the selection from before the gesture, so the gesture
+   * is undone as a single change. Clicking a point selects its nearest
+   * neighbors too, with `neighborsOnClick`.
+   */
+  private onSelect = (
+    pointIndices: number[],
+    operation: SelectionOperation,
+    source: SelectionSource,
+    dragging: boolean
+  ) => {
     if (!this.selectEnabled) return;
-    this.selectCallback(pointIndices);
-    this.select(pointIndices);
+    const hidden = this.dataset && this.getHiddenPointMask(this.dataset);
+    if (hidden) pointIndices = pointIndices.filter(i => !hidden[i]);
+    if (
+      this.neighborsOnClick &&
+      source === 'click' &&
+      pointIndices.length === 1
+    ) {
+      const neighbors = this.getNearestNeighbors(
+        pointIndices[0],
+        this.neighborsOnClick
+      );
+      pointIndices = [pointIndices[0], ...neighbors.map(n => n.index)];
+    }
+    const previous = this.selectedPointIndices;
+    const gesture = this.selectionGesture || {previous, changed: false};
+    const selected = applySelectionOperation(
+      gesture.previous,
+      pointIndices,
+      operation
+    );
+    const {added, removed} = diffSelections(
+      gesture.previous,
+      selected,
+      operation
+    );
+    if (!gesture.changed && (added.length > 0 || removed.length > 0)) {
+      gesture.changed = true;
+      this.selectionHistory.push(gesture.previous);
+      this.selectionHistoryCallback(this.selectionHistory.state);
+    }
+    this.selectionGesture = dragging ? gesture : null;
+    this.selectedPointIndices = selected;
+    this.updateScatterPlotAttributes();
+    this.renderScatterPlot();
+    this.selectCallback(
+      [...selected],
+      diffSelections(previous, selected, operation)
+    );
   };
 
-  updateDataset(dataset: Dataset) {
+  /**
+   * Returns the indices of the points whose metadata matches a query, either
+   * a predicate function or a serializable `MetadataFilter`.
+   */
+  queryPoints(query: MetadataQuery): number[] {
+    const {dataset} = this;
+    return dataset ? queryPoints(dataset, query) : [];
+  }
+
+  /**
+   * Selects the visible points whose metadata matches a query, by default
+   * replacing the selection, and returns their indices.
+   */
+  selectByQuery(
+    query: MetadataQuery,
+    operation: SelectionOperation = 'replace'
+  ): number[] {
+    const {dataset} = this;
+    if (!dataset) return [];
+    const hidden = this.getHiddenPointMask(dataset);
+    let pointIndices = queryPoints(dataset, query);
+    if (hidden) pointIndices = pointIndices.filter(i => !hidden[i]);
+    this.select(pointIndices, operation);
+    return pointIndices;
+  }
+
+  /**
+   * Hides the points whose metadata doesn't match a query, or shows all
+   * points when null. Hidden points can't be hovered or selected.
+   */
+  setFilter(filter: MetadataQuery | null) {
+    this.filter = filter;
+    this.resetHiddenPoints();
+    this.updateScatterPlotAttributes();
+    this.renderScatterPlot();
+  }
+
+  /**
+   * Highlights the points whose label, or another field, matches search text
+   * and always shows their labels, or clears the search when the text is
+   * empty. Returns the matches, which leave out hidden points.
+   *
+   * @param params how to match, by default the `searchParams` parameter
+   */
+  searchLabels(text: string, params: SearchParams = this.searchParams) {
+    const {dataset} = this;
+    const hidden = dataset && this.getHiddenPointMask(dataset);
+    const matches = dataset
+      ? searchLabels(
+          dataset,
+          text,
+          params,
+          hidden ? i => !!hidden[i] : undefined
+        )
+      : [];
+    this.searchText = text;
+    this.searchParams = params;
+    this.searchMatches = matches;
+    this.searchFocus = -1;
+    this.updateSearch();
+    return [...matches];
+  }
+
+  clearSearch() {
+    this.searchLabels('');
+  }
+
+  /** Returns the points matching the current search. */
+  getSearchMatches(): number[] {
+    return [...this.getSearchMatchList()];
+  }
+
+  /**
+   * Steps forward or back through the search matches, moving the camera to
+   * center on the match and returning its index, or null if there are none.
+   */
+  focusSearchMatch(step = 1): number | null {
+    const matches = this.getSearchMatchList();
+    const n = matches.length;
+    if (n === 0) return null;
+    if (this.searchFocus < 0) {
+      this.searchFocus = step > 0 ? 0 : n - 1;
+    } else {
+      this.searchFocus = (((this.searchFocus + step) % n) + n) % n;
+    }
+    const pointIndex = matches[this.searchFocus];
+    this.scatterPlot.focusOnPoint(pointIndex);
+    this.updateSearch();
+    return pointIndex;
+  }
+
+  private getSearchMatchList(): number[] {
+    const {dataset, searchText} = this;
+    if (!dataset || searchText === '') return [];
+    if (!this.searchMatches) {
+      const hidden = this.getHiddenPointMask(dataset);
+      this.searchMatches = searchLabels(
+        dataset,
+        searchText,
+        this.searchParams,
+        hidden ? i => !!hidden[i] : undefined
+      );
+    }
+    return this.searchMatches;
+  }
+
+  private updateSearch() {
+    if (this.searchBox) {
+      const matchCount =
+        this.searchText !== '' ? this.getSearchMatchList().length : null;
+      this.searchBox.setStatus(matchCount, this.searchFocus);
+    }
+    this.updateScatterPlotAttributes();
+    this.renderScatterPlot();
+  }
+
+  /**
+   * Lists the highlight groups from lowest to highest priority, followed by
+   * the search matches, which are drawn over every group.
+   */
+  private getHighlightGroupList(): HighlightGroup[] {
+    const groups = sortHighlightGroups(this.highlightGroups);
+    const matches = this.getSearchMatchList();
+    if (matches.length > 0) {
+      // List the focused match first, so its label wins where labels collide.
+      const focused = matches[this.searchFocus];
+      groups.push({
+        indices: focused !== undefined ? [focused, ...matches] : matches,
+        color: this.styles.search.color,
+        showLabels: true,
+      });
+    }
+    return groups;
+  }
+
+  /**
+   * Highlights a named group of points with its own color, scale and labels,
+   * replacing any group of the same name, or removes the group when null.
+   */
+  setHighlightGroup(name: string, group: HighlightGroup | null) {
+    // Re-insert the group so it counts as set last among equal priorities.
+    this.highlightGroups.delete(name);
+    if (group) this.highlightGroups.set(name, group);
+    this.updateScatterPlotAttributes();
+    this.renderScatterPlot();
+  }
+
+  getHighlightGroup(name: string): HighlightGroup | null {
+    return this.highlightGroups.get(name) || null;
+  }
+
+  clearHighlightGroups() {
+    this.highlightGroups.clear();
+    this.updateScatterPlotAttributes();
+    this.renderScatterPlot();
+  }
+
+  /**
+   * Finds the k nearest neighbors of a point, closest first, measured in the
+   * dataset's original coordinates (or high-dimensional vectors) unless other
+   * vectors are given. Points of hidden categories are left out.
+   */
+  getNearestNeighbors(
+    pointIndex: number,
+    params: NearestNeighborsParams = {}
+  ): Neighbor[] {
+    const {dataset} = this;
+    if (!dataset) return [];
+    const hidden = this.getHiddenPointMask(dataset);
+    return findNearestNeighbors(
+      dataset,
+      pointIndex,
+      params,
+      hidden ? i => hidden[i] === 1 : undefined
+    );
+  }
+
+  /**
+   * Selects a point and its k nearest neighbors, returning the neighbors with
+   * their distances.
+   */
+  selectNearestNeighbors(
+    pointIndex: number,
+    params: NearestNeighborsParams = {}
+  ): Neighbor[] {
+    const neighbors = this.getNearestNeighbors(pointIndex, params);
+    this.select([pointIndex, ...neighbors.map(n => n.index)]);
+    return neighbors;
+  }
+
+  /**
+   * Updates the dataset. When a transition is given and the number of points
+   * is unchanged, the points animate to their new positions; the returned
+   * promise resolves once they arrive.
+   */
+  updateDataset(dataset: Dataset, params: UpdateDatasetParams = {}) {
     this.setDataset(dataset);
     this.scatterPlot.setDimensions(dataset.dimensions);
     this.updateScatterPlotAttributes();
+    const transitionEnd = this.updateScatterPlotPositions(params.transition);
+    this.renderScatterPlot();
+    return transitionEnd;
+  }
+
+  /**
+   * Displays a different set of principal components of the current
+   * `HighDimensionalDataset`, optionally animating the points to their new
+   * positions. The visualizers and camera are kept.
+   *
+   * @param components the indices of 2 or 3 principal components
+   */
+  setProjectionComponents(
+    components: number[],
+    params: UpdateDatasetParams = {}
+  ) {
+    const {dataset} = this;
+    if (!(dataset instanceof HighDimensionalDataset)) {
+      throw new Error('Principal components require a HighDimensionalDataset');
+    }
+    dataset.setComponents(components);
+    this.scatterPlot.setDimensions(dataset.dimensions);
+    const transitionEnd = this.updateScatterPlotPositions(params.transition);
+    this.renderScatterPlot();
+    return transitionEnd;
+  }
+
+  /**
+   * Appends points to the current dataset, growing the rendered buffers in
+   * place without resetting the camera.
+   */
+  appendPoints(
+    points: Points | Float32Array,
+    metadata?: PointMetadata[] | MetadataColumns
+  ) {
+    const {dataset} = this;
+    if (!dataset) return;
+    dataset.appendPoints(points, metadata);
+    this.onPointCountChanged();
+  }
+
+  /**
+   * Removes points from the current dataset. The indices of the remaining
+   * points shift down, and the selection, hover point and sequences are
+   * remapped to match. If selected points are removed, `onSelect` reports
+   * them by their former indices.
+   */
+  removePoints(pointIndices: number[]) {
+    const {dataset} = this;
+    if (!dataset) return;
+
+    const remap = this.makeRemovedIndexRemapping(
+      dataset.pointCount,
+      pointIndices
+    );
+    dataset.removePoints(pointIndices);
+
+    if (this.hoverPointIndex !== null) {
+      const index = remap[this.hoverPointIndex];
+      this.hoverPointIndex = index >= 0 ? index : null;
+    }
+
+    const hadSelection = this.selectedPointIndices.size > 0;
+    const selectedPointIndices = new Set<number>();
+    const deselected: number[] = [];
+    for (const i of this.selectedPointIndices) {
+      if (remap[i] >= 0) {
+        selectedPointIndices.add(remap[i]);
+      } else {
+        deselected.push(i);
+      }
+    }
+    this.selectedPointIndices = selectedPointIndices;
+    this.selectionHistory.remap(remap);
+    for (const [name, group] of this.highlightGroups) {
+      this.highlightGroups.set(name, {
+        ...group,
+        indices: group.indices.map(i => remap[i]).filter(i => i >= 0),
+      });
+    }
+
+    if (this.sequences.length > 0) {
+      this.sequences = this.sequences
+        .map(sequence => ({
+          indices: sequence.indices.map(i => remap[i]).filter(i => i >= 0),
+        }))
+        .filter(sequence => sequence.indices.length > 1);
+      if (this.polylineVisualizer) {
+        this.polylineVisualizer.setSequences(this.sequences);
+      }
+    }
+
+    this.onPointCountChanged();
+    if (hadSelection) {
+      this.selectCallback([...selectedPointIndices], {
+        operation: 'subtract',
+        added: [],
+        removed: deselected,
+      });
+    }
+  }
+
+  /** Replaces the coordinates of existing points in the current dataset. */
+  updatePoints(pointIndices: number[], points: Points | Float32Array) {
+    const {dataset} = this;
+    if (!dataset) return;
+    dataset.updatePoints(pointIndices, points);
+    this.updateScatterPlotPositions();
+    this.renderScatterPlot();
+  }
+
+  /**
+   * Serializes points with their original coordinates and metadata to CSV or
+   * JSON text.
+   *
+   * @param format either 'csv' or 'json'
+   * @param pointIndices the points to export, by default the selected points,
+   *     or every point when nothing is selected
+   */
+  exportPoints(format: ExportFormat = 'csv', pointIndices?: number[]) {
+    return exportPoints(
+      this.getExportDataset(),
+      format,
+      pointIndices || this.getExportIndices()
+    );
+  }
+
+  /** Like `exportPoints`, but returns a Blob, e.g. for a download link. */
+  exportPointsBlob(format: ExportFormat = 'csv', pointIndices?: number[]) {
+    return exportPointsBlob(
+      this.getExportDataset(),
+      format,
+      pointIndices || this.getExportIndices()
+    );
+  }
+
+  private getExportDataset() {
+    if (!this.dataset) {
+      throw new Error('There is no dataset to export');
+    }
+    return this.dataset;
+  }
+
+  private getExportIndices() {
+    const {dataset, selectedPointIndices} = this;
+    if (selectedPointIndices.size > 0) return [...selectedPointIndices];
+
+    // Without a selection, export the visible points.
+    const hidden = dataset && this.getHiddenPointMask(dataset);
+    if (!hidden) return undefined;
+    const indices: number[] = [];
+    for (let i = 0; i < hidden.length; i++) {
+      if (!hidden[i]) indices.push(i);
+    }
+    return indices;
+  }
+
+  /**
+   * Maps each old point index to its index after removal, or -1 if the point
+   * is removed.
+   */
+  private makeRemovedIndexRemapping(pointCount: number, removed: number[]) {
+    const remap = new Int32Array(pointCount);
+    for (const i of removed) {
+      if (i >= 0 && i < pointCount) remap[i] = -1;
+    }
+    let next = 0;
+    for (let i = 0; i < pointCount; i++) {
+      if (remap[i] !== -1) remap[i] = next++;
+    }
+    return remap;
+  }
+
+  /**
+   * Refreshes everything that depends on the number of points, without
+   * recreating the visualizers.
+   */
+  private onPointCountChanged() {
+    this.resetEncodings();
+    if (this.labels3DVisualizer) {
+      this.labels3DVisualizer.setLabelStrings(this.generate3DLabelsArray());
+    }
+    if (this.spritesheetVisualizer) {
+      this.spritesheetVisualizer.setSpriteIndices(
+        this.generateSpriteIndexArray()
+      );
+    }
+    this.updateScatterPlotAttributes();
     this.updateScatterPlotPositions();
+    if (this.sequences.length > 0) this.updatePolylineAttributes();
     this.renderScatterPlot();
   }
 
@@ -266,18 +1188,22 @@ export class ScatterGL {
 
   private setDataset(dataset: Dataset) {
     this.dataset = dataset;
+    this.resetEncodings();
 
     if (this.labels3DVisualizer) {
       this.labels3DVisualizer.setLabelStrings(this.generate3DLabelsArray());
     }
   }
 
-  private updateScatterPlotPositions() {
+  private updateScatterPlotPositions(transition?: TransitionParams) {
     const {dataset} = this;
-    if (!dataset) return;
+    if (!dataset) return Promise.resolve();
 
     const newPositions = this.generatePointPositionArray(dataset);
-    this.scatterPlot.setPointPositions(newPositions);
+    this.scatterPlot.setWorldFrame(
+      getWorldFrame(this.normalization, dataset.dimensions)
+    );
+    return this.scatterPlot.setPointPositions(newPositions, transition);
   }
 
   private updateScatterPlotAttributes() {
@@ -307,54 +1233,22 @@ export class ScatterGL {
   }
 
   private generatePointPositionArray(dataset: Dataset): Float32Array {
-    let xExtent = [0, 0];
-    let yExtent = [0, 0];
-    let zExtent = [0, 0];
-
-    // Determine max and min of each axis of our data.
-    xExtent = util.extent(dataset.points.map(p => p[0]));
-    yExtent = util.extent(dataset.points.map(p => p[1]));
-
-    if (dataset.dimensions === 3) {
-      zExtent = util.extent(dataset.points.map(p => p[2]!));
-    }
-
-    const getRange = (extent: number[]) => Math.abs(extent[1] - extent[0]);
-    const xRange = getRange(xExtent);
-    const yRange = getRange(yExtent);
-    const zRange = getRange(zExtent);
-    const maxRange = Math.max(xRange, yRange, zRange);
-
-    const halfCube = SCATTER_PLOT_CUBE_LENGTH / 2;
-    const makeScaleRange = (range: number, base: number) => [
-      -base * (range / maxRange),
-      base * (range / maxRange),
-    ];
-    const xScale = makeScaleRange(xRange, halfCube);
-    const yScale = makeScaleRange(yRange, halfCube);
-    const zScale = makeScaleRange(zRange, halfCube);
-
-    const positions = new Float32Array(dataset.points.length * 3);
-    let dst = 0;
-
-    dataset.points.forEach((d, i) => {
-      const vector = dataset.points[i];
-
-      positions[dst++] = util.scaleLinear(vector[0], xExtent, xScale);
-      positions[dst++] = util.scaleLinear(vector[1], yExtent, yScale);
-
-      if (dataset.dimensions === 3) {
-        positions[dst++] = util.scaleLinear(vector[2]!, zExtent, zScale);
-      } else {
-        positions[dst++] = 0.0;
-      }
-    });
-    return positions;
+    const {dimensions, positions} = dataset;
+    return normalizePositions(positions, dimensions, this.normalization);
   }
 
   private generateVisibleLabelRenderParams(): LabelRenderParams {
-    const {hoverPointIndex, selectedPointIndices, styles} = this;
-    const n = hoverPointIndex !== null ? 1 : 0;
+    const {dataset, hoverPointIndex, selectedPointIndices, styles} = this;
+    const labels = dataset
+      ? listLabeledPoints(
+          hoverPointIndex,
+          selectedPointIndices,
+          this.getHighlightGroupList().reverse(),
+          dataset.pointCount,
+          this.getHiddenPointMask(dataset)
+        )
+      : [];
+    const n = labels.length;
 
     const visibleLabels = new Uint32Array(n);
     const scale = new Float32Array(n);
@@ -366,14 +1260,37 @@ export class ScatterGL {
     scale.fill(styles.label.scaleDefault);
     opacityFlags.fill(1);
 
-    let dst = 0;
+    const hoverFillRgb = util.styleRgbFromHexColor(styles.label.fillColorHover);
+    const hoverStrokeRgb = util.styleRgbFromHexColor(
+      styles.label.strokeColorHover
+    );
+    const selectedFillRgb = util.styleRgbFromHexColor(
+      styles.label.fillColorSelected
+    );
+    const selectedStrokeRgb = util.styleRgbFromHexColor(
+      styles.label.strokeColorSelected
+    );
 
-    if (hoverPointIndex !== null) {
-      labelStrings.push(this.getLabelText(hoverPointIndex));
-      visibleLabels[dst] = hoverPointIndex;
-      scale[dst] = styles.label.scaleLarge;
-      opacityFlags[dst] = 0;
-      const fillRgb = util.styleRgbFromHexColor(styles.label.fillColorHover);
+    labels.forEach(({index, reason, color}, dst) => {
+      labelStrings.push(this.getLabelText(index));
+      visibleLabels[dst] = index;
+      let fillRgb = selectedFillRgb;
+      let strokeRgb = selectedStrokeRgb;
+      if (reason === 'hover') {
+        fillRgb = hoverFillRgb;
+        strokeRgb = hoverStrokeRgb;
+      } else if (reason === 'group') {
+        const c = parseColor(color!);
+        fillRgb = [
+          Math.round(c.r * 255),
+          Math.round(c.g * 255),
+          Math.round(c.b * 255),
+        ];
+      }
+      if (reason !== 'group') {
+        scale[dst] = styles.label.scaleLarge;
+        opacityFlags[dst] = 0;
+      }
       util.packRgbIntoUint8Array(
         fillColors,
         dst,
@@ -381,48 +1298,14 @@ export class ScatterGL {
         fillRgb[1],
         fillRgb[2]
       );
-      const strokeRgb = util.styleRgbFromHexColor(
-        styles.label.strokeColorHover
-      );
       util.packRgbIntoUint8Array(
         strokeColors,
         dst,
         strokeRgb[0],
         strokeRgb[1],
-        strokeRgb[1]
-      );
-      ++dst;
-    }
-
-    // Selected points
-    {
-      const fillRgb = util.styleRgbFromHexColor(styles.label.fillColorSelected);
-      const strokeRgb = util.styleRgbFromHexColor(
-        styles.label.strokeColorSelected
+        strokeRgb[2]
       );
-
-      if (selectedPointIndices.size === 1) {
-        const labelIndex = [...selectedPointIndices][0];
-        labelStrings.push(this.getLabelText(labelIndex));
-        visibleLabels[dst] = labelIndex;
-        scale[dst] = styles.label.scaleLarge;
-        opacityFlags[dst] = 0;
-        util.packRgbIntoUint8Array(
-          fillColors,
-          dst,
-          fillRgb[0],
-          fillRgb[1],
-          fillRgb[2]
-        );
-        util.packRgbIntoUint8Array(
-          strokeColors,
-          dst,
-          strokeRgb[0],
-          strokeRgb[1],
-          strokeRgb[2]
-        );
-      }
-    }
+    });
 
     return new LabelRenderParams(
       new Float32Array(visibleLabels),
@@ -440,21 +1323,55 @@ export class ScatterGL {
 
     const {scaleDefault, scaleSelected, scaleHover} = styles.point;
 
-    const scale = new Float32Array(dataset.points.length);
+    const scale = new Float32Array(dataset.pointCount);
     scale.fill(scaleDefault);
 
+    // Encoded sizes multiply the default, selected and hover scales.
+    if (this.sizeBy && !this.sizeByScales) {
+      this.sizeByScales = generateEncodingArray(
+        dataset,
+        this.sizeBy,
+        DEFAULT_SIZE_BY_RANGE,
+        1
+      );
+    }
+    const sizes = this.sizeBy ? this.sizeByScales : null;
+    if (sizes) {
+      for (let i = 0; i < scale.length; i++) {
+        scale[i] *= sizes[i];
+      }
+    }
+    const sizeOf = (i: number) => (sizes ? sizes[i] : 1);
+
     const selectedPointCount = selectedPointIndices.size;
 
+    // Scale highlight group points, highest priority last.
+    for (const group of this.getHighlightGroupList()) {
+      const groupScale =
+        group.scale !== undefined ? group.scale : scaleSelected;
+      for (const i of group.indices) {
+        if (i >= 0 && i < scale.length) scale[i] = groupScale * sizeOf(i);
+      }
+    }
+
     // Scale up all selected points.
     {
       for (const p of selectedPointIndices.values()) {
-        scale[p] = scaleSelected;
+        scale[p] = scaleSelected * sizeOf(p);
       }
     }
 
     // Scale up the hover point.
     if (hoverPointIndex != null) {
-      scale[hoverPointIndex] = scaleHover;
+      scale[hoverPointIndex] = scaleHover * sizeOf(hoverPointIndex);
+    }
+
+    // Hidden points have no size, so they can't be seen or picked.
+    const hidden = this.getHiddenPointMask(dataset);
+    if (hidden) {
+      for (let i = 0; i < hidden.length; i++) {
+        if (hidden[i]) scale[i] = 0;
+      }
     }
 
     return scale;
@@ -470,7 +1387,7 @@ export class ScatterGL {
       colorUnselected,
     } = styles.point;
 
-    const colors = new Float32Array(dataset.points.length * RGBA_NUM_ELEMENTS);
+    const colors = new Float32Array(dataset.pointCount * RGBA_NUM_ELEMENTS);
 
     let unselectedColor = colorUnselected;
     let noSelectionColor = colorNoSelection;
@@ -487,7 +1404,7 @@ export class ScatterGL {
       noSelectionColor = this.styles.sprites.colorNoSelection;
     }
 
-    const n = dataset.points.length;
+    const n = dataset.pointCount;
     const selectedPointCount = this.selectedPointIndices.size;
 
     // Color points with the point colorer, otherwise use default colors
@@ -503,27 +1420,41 @@ export class ScatterGL {
         colors[dst++] = c.b;
         colors[dst++] = c.opacity;
       }
+      this.colorHighlightGroups(colors);
     }
     // Otherwise, determine whether to first color all points with the default
     // unselected color or the color where none is selected...
     else {
+      // Points colored by metadata keep their color, unless unselected.
+      const scaleColors = this.getColorScaleColors(dataset, noSelectionColor);
+
       // First color all unselected / non-selected points
       let dst = 0;
       let c =
         selectedPointCount > 0
           ? parseColor(unselectedColor)
           : parseColor(noSelectionColor);
-      for (let i = 0; i < n; ++i) {
-        colors[dst++] = c.r;
-        colors[dst++] = c.g;
-        colors[dst++] = c.b;
-        colors[dst++] = c.opacity;
+      if (scaleColors && selectedPointCount === 0) {
+        colors.set(scaleColors);
+      } else {
+        for (let i = 0; i < n; ++i) {
+          colors[dst++] = c.r;
+          colors[dst++] = c.g;
+          colors[dst++] = c.b;
+          colors[dst++] = c.opacity;
+        }
       }
 
+      this.colorHighlightGroups(colors);
+
       // Then, color selected points
       c = parseColor(colorSelected);
       for (const selectedPointIndex of selectedPointIndices.values()) {
         let dst = selectedPointIndex * RGBA_NUM_ELEMENTS;
+        if (scaleColors) {
+          colors.set(scaleColors.subarray(dst, dst + RGBA_NUM_ELEMENTS), dst);
+          continue;
+        }
         colors[dst++] = c.r;
         colors[dst++] = c.g;
         colors[dst++] = c.b;
@@ -541,15 +1472,65 @@ export class ScatterGL {
       }
     }
 
+    // Fade all but the points of a category highlighted from the legend.
+    const {highlightedCategory} = this;
+    const scale = this.getColorScale();
+    if (highlightedCategory !== null && scale) {
+      const c = parseColor(unselectedColor);
+      for (let i = 0; i < n; ++i) {
+        const value = dataset.getMetadataValue(i, scale.field);
+        if (value === highlightedCategory) continue;
+        let dst = i * RGBA_NUM_ELEMENTS;
+        colors[dst++] = c.r;
+        colors[dst++] = c.g;
+        colors[dst++] = c.b;
+        colors[dst++] = c.opacity;
+      }
+    }
+
+    // Fade points by their encoded opacity.
+    const opacities = this.getOpacityByValues(dataset);
+    if (opacities) {
+      for (let i = 0; i < n; ++i) {
+        if (i === hoverPointIndex) continue;
+        const opacity = i < opacities.length ? opacities[i] : 1;
+        colors[i * RGBA_NUM_ELEMENTS + 3] *= Math.min(Math.max(opacity, 0), 1);
+      }
+    }
+
+    // Hidden points are fully transparent.
+    const hidden = this.getHiddenPointMask(dataset);
+    if (hidden) {
+      for (let i = 0; i < n; ++i) {
+        if (hidden[i]) colors[i * RGBA_NUM_ELEMENTS + 3] = 0;
+      }
+    }
+
     return colors;
   }
 
+  /** Colors highlight group points, highest priority last. */
+  private colorHighlightGroups(colors: Float32Array) {
+    const pointCount = colors.length / RGBA_NUM_ELEMENTS;
+    for (const group of this.getHighlightGroupList()) {
+      const c = parseColor(group.color);
+      for (const i of group.indices) {
+        if (i < 0 || i >= pointCount) continue;
+        let dst = i * RGBA_NUM_ELEMENTS;
+        colors[dst++] = c.r;
+        colors[dst++] = c.g;
+        colors[dst++] = c.b;
+        colors[dst++] = c.opacity;
+      }
+    }
+  }
+
   private generate3DLabelsArray() {
     const {dataset} = this;
     if (!dataset) return [];
 
     let labels: string[] = [];
-    const n = dataset.points.length;
+    const n = dataset.pointCount;
     for (let i = 0; i < n; ++i) {
       labels.push(this.getLabelText(i));
     }
@@ -652,8 +1633,8 @@ export class ScatterGL {
   private getLabelText(i: number) {
     const {dataset} = this;
     if (!dataset) return '';
-    const metadata = dataset.metadata[i];
-    return metadata && metadata.label != null ? `${metadata.label}` : '';
+    const label = dataset.getMetadataValue(i, 'label');
+    return label != null ? `${label}` : '';
   }
 
   private initializeCanvasLabelsVisualizer() {
@@ -690,18 +1671,7 @@ export class ScatterGL {
         return;
       }
 
-      const n = dataset.points.length;
-
-      let spriteIndices: Float32Array;
-      if (spriteMetadata.spriteIndices) {
-        spriteIndices = new Float32Array(spriteMetadata.spriteIndices);
-      } else {
-        spriteIndices = new Float32Array(n);
-        for (let i = 0; i < n; ++i) {
-          spriteIndices[i] = i;
-        }
-      }
-
+      const spriteIndices = this.generateSpriteIndexArray();
       const onImageLoad = () => this.renderScatterPlot();
 
       const spritesheetVisualizer = new ScatterPlotVisualizerSprites(styles, {
@@ -716,6 +1686,24 @@ export class ScatterGL {
     return this.spritesheetVisualizer;
   }
 
+  /**
+   * Generates the sprite index of every point, falling back to the point
+   * index for points without an explicit sprite index.
+   */
+  private generateSpriteIndexArray() {
+    const dataset = this.dataset!;
+    const {spriteMetadata} = dataset;
+    const explicitIndices =
+      (spriteMetadata && spriteMetadata.spriteIndices) || [];
+
+    const n = dataset.pointCount;
+    const spriteIndices = new Float32Array(n);
+    for (let i = 0; i < n; ++i) {
+      spriteIndices[i] = i < explicitIndices.length ? explicitIndices[i] : i;
+    }
+    return spriteIndices;
+  }
+
   private initializePolylineVisualizer() {
     if (!this.polylineVisualizer) {
       this.polylineVisualizer = new ScatterPlotVisualizerPolylines();
@@ -756,4 +1744,9 @@ export class ScatterGL {
   }
 
   static Dataset = Dataset;
+  static HighDimensionalDataset = HighDimensionalDataset;
+}
+
+function isArrayLike(value: OpacityBy): value is ArrayLike<number> {
+  return typeof (value as ArrayLike<number>).length === 'number';
 }
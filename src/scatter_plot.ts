@@ -18,8 +18,14 @@ limitations under the License.
 import * as THREE from 'three';
 import {OrbitControls} from 'three/examples/jsm/controls/OrbitControls';
 
+import {WorldFrame} from './normalization';
 import {CameraType, LabelRenderParams, RenderContext} from './render';
 import {Styles} from './styles';
+import {
+  TransitionParams,
+  getEasingFunction,
+  interpolatePositions,
+} from './transition';
 import {Optional, Point2D, Point3D, InteractionMode} from './types';
 import * as util from './util';
 
@@ -28,6 +34,21 @@ import {
   ScatterBoundingBox,
   ScatterPlotRectangleSelector,
 } from './scatter_plot_rectangle_selector';
+import {ScatterPlotLassoSelector} from './scatter_plot_lasso_selector';
+import {
+  ScatterPlotBrushSelector,
+  getStrokeBounds,
+  isPointNearStroke,
+} from './scatter_plot_brush_selector';
+import {SelectionOperation, SelectionSource} from './selection';
+import {KdTree, ScreenBounds, ScreenProjection} from './spatial_index';
+import {
+  PICKING_CLEAR_COLOR,
+  PickingEncoding,
+  choosePickingEncoding,
+  createPickingTargets,
+  readPickingIds,
+} from './picking';
 
 /**
  * The length of the cube (diameter of the circumscribing sphere) where all the
@@ -47,6 +68,9 @@ const ORTHO_CAMERA_FRUSTUM_HALF_EXTENT = 1.2;
 const SHIFT_KEY = 'Shift';
 const CTRL_KEY = 'Control';
 
+/** The radius of the first search for the nearest point, in CSS pixels. */
+const NEAREST_POINT_SEARCH_RADIUS = 16;
+
 const START_CAMERA_POS_3D = new THREE.Vector3(0.45, 0.9, 1.6);
 const START_CAMERA_TARGET_3D = new THREE.Vector3(0, 0, 0);
 const START_CAMERA_POS_2D = new THREE.Vector3(0, 0, 4);
@@ -85,8 +109,22 @@ export interface ScatterPlotParams {
   camera?: CameraParams;
   onClick?: (point: number | null) => void;
   onHover?: (point: number | null) => void;
-  onSelect?: (points: number[]) => void;
+  /**
+   * Called with the points of a selection gesture, the gesture, and whether
+   * it is still being dragged, as with a brush reporting the points it has
+   * passed over.
+   */
+  onSelect?: (
+    points: number[],
+    operation: SelectionOperation,
+    source: SelectionSource,
+    dragging: boolean
+  ) => void;
   selectEnabled?: boolean;
+  /** How far from the mouse a point can be hovered, in CSS pixels. */
+  hoverRadius?: number;
+  /** Whether to hover the nearest point wherever the mouse is, in 2D. */
+  snapToNearest?: boolean;
   styles: Styles;
   orbitControlParams?: Optional<OrbitControlParams>;
 }
@@ -102,8 +140,15 @@ export class ScatterPlot {
   private styles: Styles;
   private clickCallback: (point: number | null) => void = () => {};
   private hoverCallback: (point: number | null) => void = () => {};
-  private selectCallback: (point: number[]) => void = () => {};
+  private selectCallback: (
+    point: number[],
+    operation: SelectionOperation,
+    source: SelectionSource,
+    dragging: boolean
+  ) => void = () => {};
   private selectEnabled = true;
+  private hoverRadius = 0;
+  private snapToNearest = false;
 
   // Map of visualizers by visualizer name/id
   private visualizers = new Map<string, ScatterPlotVisualizer>();
@@ -113,21 +158,28 @@ export class ScatterPlot {
   private height = 0;
   private width = 0;
   private dimensions = 3;
+  private worldFrame: WorldFrame = {center: [0, 0, 0], halfSize: 1};
 
   private interactionMode = InteractionMode.PAN;
 
   private renderer: THREE.WebGLRenderer;
 
   private scene: THREE.Scene;
-  private pickingTexture = new THREE.WebGLRenderTarget(0, 0);
+  private pickingEncoding: PickingEncoding = 'rgb';
+  /** The render target of each of the picking encoding's passes. */
+  private pickingTargets: THREE.WebGLRenderTarget[] = [];
   private light: THREE.PointLight;
 
   private camera!: THREE.Camera;
   private orbitAnimationOnNextCameraCreation: boolean = false;
   private orbitCameraControls: any;
   private orbitAnimationId: number | null = null;
+  private transitionAnimationId: number | null = null;
+  private resolveTransition: (() => void) | null = null;
 
   private worldSpacePointPositions = new Float32Array(0);
+  /** Built from the point positions on the first query after they change. */
+  private spatialIndex: KdTree | null = null;
   private pointColors = new Float32Array(0);
   private pointScaleFactors = new Float32Array(0);
   private labels?: LabelRenderParams;
@@ -139,7 +191,10 @@ export class ScatterPlot {
   private nearestPoint: number | null = null;
   private mouseIsDown = false;
   private isDragSequence = false;
+  private selectionOperation: SelectionOperation = 'replace';
   private rectangleSelector: ScatterPlotRectangleSelector;
+  private lassoSelector: ScatterPlotLassoSelector;
+  private brushSelector: ScatterPlotBrushSelector;
 
   private readonly orbitControlParams: OrbitControlParams;
 
@@ -173,6 +228,20 @@ export class ScatterPlot {
       },
       this.styles
     );
+    this.lassoSelector = new ScatterPlotLassoSelector(
+      this.container,
+      (polygon: Point2D[]) => {
+        this.selectPolygon(polygon);
+      },
+      this.styles
+    );
+    this.brushSelector = new ScatterPlotBrushSelector(
+      this.container,
+      (stroke: Point2D[], radius: number, dragging: boolean) => {
+        this.selectBrushStroke(stroke, radius, dragging);
+      },
+      this.styles
+    );
     this.addInteractionListeners();
     this.setDimensions(3);
     this.makeCamera(params.camera);
@@ -184,6 +253,8 @@ export class ScatterPlot {
     if (p.onHover !== undefined) this.hoverCallback = p.onHover;
     if (p.onSelect !== undefined) this.selectCallback = p.onSelect;
     if (p.selectEnabled !== undefined) this.selectEnabled = p.selectEnabled;
+    if (p.hoverRadius !== undefined) this.hoverRadius = p.hoverRadius;
+    if (p.snapToNearest !== undefined) this.snapToNearest = p.snapToNearest;
   }
 
   private addInteractionListeners() {
@@ -191,6 +262,14 @@ export class ScatterPlot {
     this.container.addEventListener('pointerdown', this.onMouseDown.bind(this));
     this.container.addEventListener('pointerup', this.onMouseUp.bind(this));
     this.container.addEventListener('click', this.onClick.bind(this));
+    this.container.addEventListener('pointerenter', () => {
+      this.brushSelector.setVisible(
+        this.interactionMode === InteractionMode.BRUSH
+      );
+    });
+    this.container.addEventListener('pointerleave', () => {
+      this.brushSelector.setVisible(false);
+    });
     window.addEventListener('keydown', this.onKeyDown.bind(this), false);
     window.addEventListener('keyup', this.onKeyUp.bind(this), false);
   }
@@ -259,8 +338,8 @@ export class ScatterPlot {
       camera = new THREE.PerspectiveCamera(
         PERSP_CAMERA_FOV_VERTICAL,
         aspectRatio,
-        PERSP_CAMERA_NEAR_CLIP_PLANE,
-        PERSP_CAMERA_FAR_CLIP_PLANE
+        PERSP_CAMERA_NEAR_CLIP_PLANE * this.worldFrame.halfSize,
+        PERSP_CAMERA_FAR_CLIP_PLANE * this.worldFrame.halfSize
       );
       camera.position.set(
         cameraDef.position[0],
@@ -333,11 +412,23 @@ export class ScatterPlot {
     const target = orthographic
       ? START_CAMERA_TARGET_2D
       : START_CAMERA_TARGET_3D;
+    // Scale the 3d camera's distance, or the 2d camera's zoom, to frame the
+    // world region holding the points.
+    const {center, halfSize} = this.worldFrame;
+    const distance = orthographic ? 1 : halfSize;
     const def: CameraDef = {
       orthographic,
-      zoom: 1.0,
-      position: [position.x, position.y, position.z],
-      target: [target.x, target.y, target.z],
+      zoom: orthographic ? 1 / halfSize : 1.0,
+      position: [
+        center[0] + position.x * distance,
+        center[1] + position.y * distance,
+        center[2] + position.z * distance,
+      ],
+      target: [
+        center[0] + target.x * distance,
+        center[1] + target.y * distance,
+        center[2] + target.z * distance,
+      ],
     };
 
     if (cameraParams.zoom) def.zoom = cameraParams.zoom;
@@ -354,17 +445,23 @@ export class ScatterPlot {
     } else {
       this.makeCamera3D(cameraDef, this.width, this.height);
     }
-    this.orbitCameraControls.minDistance = MIN_ZOOM;
-    this.orbitCameraControls.maxDistance = MAX_ZOOM;
+    this.orbitCameraControls.minDistance = MIN_ZOOM * this.worldFrame.halfSize;
+    this.orbitCameraControls.maxDistance = MAX_ZOOM * this.worldFrame.halfSize;
     this.orbitCameraControls.update();
     if (this.orbitAnimationOnNextCameraCreation) {
       this.startOrbitAnimation();
     }
   }
 
+  /** Sets the radius of the brush in brush mode, in CSS pixels. */
+  setBrushRadius(radius: number) {
+    this.brushSelector.setRadius(radius);
+  }
+
   setInteractionMode(interactionMode: InteractionMode) {
     this.interactionMode = interactionMode;
-    if (interactionMode === InteractionMode.SELECT) {
+    this.brushSelector.setVisible(interactionMode === InteractionMode.BRUSH);
+    if (interactionMode !== InteractionMode.PAN) {
       this.selecting = true;
       this.container.style.cursor = 'crosshair';
       this.orbitCameraControls.enabled = false;
@@ -383,7 +480,9 @@ export class ScatterPlot {
     if (!this.isDragSequence && notify) {
       if (this.selectEnabled) {
         const selected = this.nearestPoint != null ? [this.nearestPoint] : [];
-        this.selectCallback(selected);
+        const toggle = e != null && (e.ctrlKey || e.metaKey);
+        const operation = toggle ? 'toggle' : 'replace';
+        this.selectCallback(selected, operation, 'click', false);
       }
       this.clickCallback(this.nearestPoint);
     }
@@ -396,7 +495,8 @@ export class ScatterPlot {
     this.mouseIsDown = true;
 
     if (this.selecting) {
-      this.rectangleSelector.onMouseDown(e.offsetX, e.offsetY);
+      this.selectionOperation = getSelectionOperation(e);
+      this.getSelector().onMouseDown(e.offsetX, e.offsetY);
       this.setNearestPointToMouse(e);
     } else if (
       !e.ctrlKey &&
@@ -422,12 +522,27 @@ export class ScatterPlot {
   /** When we stop dragging/zooming, return to normal behavior. */
   private onMouseUp(e: any) {
     if (this.selecting) {
-      this.rectangleSelector.onMouseUp();
+      this.getSelector().onMouseUp();
       this.render();
     }
     this.mouseIsDown = false;
   }
 
+  /**
+   * The lasso or brush in their modes, and otherwise the rectangle (e.g. on
+   * shift).
+   */
+  private getSelector() {
+    switch (this.interactionMode) {
+      case InteractionMode.LASSO:
+        return this.lassoSelector;
+      case InteractionMode.BRUSH:
+        return this.brushSelector;
+      default:
+        return this.rectangleSelector;
+    }
+  }
+
   private lastHovered: number | null = null;
   /**
    * When the mouse moves, find the nearest point (if any) and send it to the
@@ -437,9 +552,12 @@ export class ScatterPlot {
     this.isDragSequence = this.mouseIsDown;
     // Depending if we're selecting or just navigating, handle accordingly.
     if (this.selecting && this.mouseIsDown) {
-      this.rectangleSelector.onMouseMove(e.offsetX, e.offsetY);
+      this.getSelector().onMouseMove(e.offsetX, e.offsetY);
       this.render();
     } else if (!this.mouseIsDown) {
+      if (this.interactionMode === InteractionMode.BRUSH) {
+        this.brushSelector.onMouseMove(e.offsetX, e.offsetY);
+      }
       this.setNearestPointToMouse(e);
       if (this.nearestPoint != this.lastHovered) {
         this.lastHovered = this.nearestPoint;
@@ -493,7 +611,6 @@ export class ScatterPlot {
     if (this.worldSpacePointPositions == null) {
       return [];
     }
-    this.camera.updateMatrixWorld();
 
     const dpr = window.devicePixelRatio || 1;
     const selectionX = Math.floor(boundingBox.x * dpr);
@@ -508,34 +625,141 @@ export class ScatterPlot {
       return this.getPointIndicesFromBoundingBoxPickingTexture(boundingBox);
     }
 
-    const canvas = this.renderer.domElement;
-    const canvasWidth = canvas.width;
-    const canvasHeight = canvas.height;
+    return this.getPointIndicesInScreenRegion({
+      minX: selectionX,
+      minY: selectionY - selectionHeight,
+      maxX: selectionX + selectionWidth,
+      maxY: selectionY,
+    });
+  }
 
-    let pointIndices: number[] = [];
-    // Reuse the same Vector3 to avoid unnecessary allocations.
-    const vector3 = new THREE.Vector3();
-    for (let i = 0; i < this.worldSpacePointPositions.length; i++) {
-      const start = i * 3;
-      const [worldX, worldY, worldZ] = this.worldSpacePointPositions.slice(
-        start,
-        start + 3
-      );
-      vector3.x = worldX;
-      vector3.y = worldY;
-      vector3.z = worldZ;
-      const screenVector = vector3.project(this.camera);
-      const x = ((screenVector.x + 1) * canvasWidth) / 2;
-      const y = (-(screenVector.y - 1) * canvasHeight) / 2;
-
-      if (x >= selectionX && x <= selectionX + selectionWidth) {
-        if (y <= selectionY && y >= selectionY - selectionHeight) {
-          pointIndices.push(i);
-        }
+  /**
+   * Returns a list of indices of points in a lasso polygon by manually
+   * projecting those points into camera space.
+   *
+   * @param polygon The vertices of the polygon, in container pixel offsets.
+   */
+  private getPointIndicesFromPolygon(polygon: Point2D[]) {
+    // A lasso with fewer than three vertices is a click with the lasso tool
+    // enabled, so use the picking texture as for a small bounding box.
+    if (polygon.length < 3) {
+      const [x, y] = polygon[0];
+      return this.getPointIndicesFromBoundingBoxPickingTexture({
+        x,
+        y,
+        width: 1,
+        height: 1,
+      });
+    }
+
+    const dpr = window.devicePixelRatio || 1;
+    const scaledPolygon = polygon.map(([x, y]): Point2D => [x * dpr, y * dpr]);
+    const [minX, maxX] = util.extent(scaledPolygon.map(([x]) => x));
+    const [minY, maxY] = util.extent(scaledPolygon.map(([, y]) => y));
+    return this.getPointIndicesInScreenRegion(
+      {minX, minY, maxX, maxY},
+      (x, y) => util.isPointInPolygon(x, y, scaledPolygon)
+    );
+  }
+
+  /**
+   * Returns a list of indices of points within a brush's radius of the
+   * positions it was dragged through, by manually projecting those points into
+   * camera space.
+   *
+   * @param stroke The positions of the brush, in container pixel offsets.
+   * @param radius The radius of the brush, in CSS pixels.
+   */
+  private getPointIndicesFromBrushStroke(stroke: Point2D[], radius: number) {
+    const dpr = window.devicePixelRatio || 1;
+    const scaledStroke = stroke.map(([x, y]): Point2D => [x * dpr, y * dpr]);
+    const scaledRadius = radius * dpr;
+
+    // Only measure distances for points near the stroke's bounding box.
+    return this.getPointIndicesInScreenRegion(
+      getStrokeBounds(scaledStroke, scaledRadius),
+      (x, y) => isPointNearStroke(x, y, scaledStroke, scaledRadius)
+    );
+  }
+
+  /**
+   * Returns a list of indices of points whose projected positions, in canvas
+   * pixels from the top left corner, are inside screen bounds and optionally a
+   * region within them.
+   */
+  private getPointIndicesInScreenRegion(
+    bounds: ScreenBounds,
+    contains?: (x: number, y: number) => boolean
+  ) {
+    const pointIndices: number[] = [];
+    this.forEachPointInScreenBounds(bounds, (i, x, y) => {
+      if (!contains || contains(x, y)) {
+        pointIndices.push(i);
       }
+    });
+    return pointIndices.sort((a, b) => a - b);
+  }
+
+  /**
+   * Calls back with the index, canvas pixel position and depth of every point
+   * in front of the camera that projects inside screen bounds.
+   */
+  private forEachPointInScreenBounds(
+    bounds: ScreenBounds,
+    visit: (pointIndex: number, x: number, y: number, depth: number) => void
+  ) {
+    this.getSpatialIndex().queryScreenBounds(
+      this.getScreenProjection(),
+      bounds,
+      visit
+    );
+  }
+
+  /** Projects world positions into canvas pixels through the camera. */
+  private getScreenProjection() {
+    this.camera.updateMatrixWorld();
+    const canvas = this.renderer.domElement;
+    return new ScreenProjection(this.camera, canvas.width, canvas.height);
+  }
+
+  private getSpatialIndex() {
+    if (this.spatialIndex == null) {
+      this.spatialIndex = new KdTree(this.worldSpacePointPositions);
     }
+    return this.spatialIndex;
+  }
 
-    return pointIndices;
+  /**
+   * Returns the index of the drawn point nearest to a position, or null when
+   * none is within a distance of it. Points at the same distance are told
+   * apart by their depth, preferring the point nearest to the camera.
+   *
+   * @param offsetX The x offset of the position in the container, in pixels.
+   * @param offsetY The y offset of the position in the container, in pixels.
+   * @param maxDistance The largest distance to search, in CSS pixels, which
+   *     may be infinite to find the nearest point on screen.
+   */
+  findNearestPoint(
+    offsetX: number,
+    offsetY: number,
+    maxDistance: number
+  ): number | null {
+    const dpr = window.devicePixelRatio || 1;
+    const canvas = this.renderer.domElement;
+    // No point on screen is farther than the canvas' diagonal.
+    const limit = Math.min(
+      maxDistance * dpr,
+      Math.sqrt(canvas.width * canvas.width + canvas.height * canvas.height)
+    );
+    return this.getSpatialIndex().findNearestOnScreen(
+      this.getScreenProjection(),
+      offsetX * dpr,
+      offsetY * dpr,
+      NEAREST_POINT_SEARCH_RADIUS * dpr,
+      limit,
+      // Hidden points are drawn with a scale factor of zero.
+      i => this.pointScaleFactors[i] === 0
+    );
   }
 
   /**
@@ -546,7 +770,10 @@ export class ScatterPlot {
   private getPointIndicesFromBoundingBoxPickingTexture(
     boundingBox: ScatterBoundingBox
   ): number[] {
-    if (this.worldSpacePointPositions == null) {
+    if (
+      this.worldSpacePointPositions == null ||
+      this.pickingTargets.length === 0
+    ) {
       return [];
     }
     const pointCount = this.worldSpacePointPositions.length / 3;
@@ -556,17 +783,15 @@ export class ScatterPlot {
     const width = Math.max(Math.floor(boundingBox.width * dpr), 1);
     const height = Math.max(Math.floor(boundingBox.height * dpr), 1);
 
-    // Create buffer for reading all of the pixels from the texture.
-    let pixelBuffer = new Uint8Array(width * height * 4);
-
-    // Read the pixels from the bounding box.
-    this.renderer.readRenderTargetPixels(
-      this.pickingTexture,
+    // Read the ids of the points in the bounding box.
+    const ids = readPickingIds(
+      this.renderer,
+      this.pickingTargets,
+      this.pickingEncoding,
       x,
-      this.pickingTexture.height - y,
+      this.pickingTargets[0].height - y,
       width,
-      height,
-      pixelBuffer
+      height
     );
 
     // Keep a flat list of each point and whether they are selected or not. This
@@ -575,13 +800,8 @@ export class ScatterPlot {
       this.worldSpacePointPositions.length
     );
 
-    for (let i = 0; i < width * height; i++) {
-      const id = util.decodeIdFromRgb(
-        pixelBuffer[i * 4],
-        pixelBuffer[i * 4 + 1],
-        pixelBuffer[i * 4 + 2]
-      );
-      if (id !== 0xffffff && id < pointCount) {
+    for (const id of ids) {
+      if (id < pointCount) {
         pointIndicesSelection[id] = 1;
       }
     }
@@ -597,11 +817,48 @@ export class ScatterPlot {
 
   private selectBoundingBox(boundingBox: ScatterBoundingBox) {
     let pointIndices = this.getPointIndicesFromBoundingBox(boundingBox);
-    this.selectCallback(pointIndices);
+    this.selectGesturePoints(pointIndices, 'rectangle');
+  }
+
+  private selectPolygon(polygon: Point2D[]) {
+    let pointIndices = this.getPointIndicesFromPolygon(polygon);
+    this.selectGesturePoints(pointIndices, 'lasso');
+  }
+
+  private selectBrushStroke(
+    stroke: Point2D[],
+    radius: number,
+    dragging: boolean
+  ) {
+    let pointIndices = this.getPointIndicesFromBrushStroke(stroke, radius);
+    this.selectGesturePoints(pointIndices, 'brush', dragging);
+  }
+
+  /**
+   * Reports the points of a selection gesture with the operation its modifier
+   * keys chose. Clicking rather than dragging is reported as a click, and
+   * adding by clicking toggles the point.
+   */
+  private selectGesturePoints(
+    pointIndices: number[],
+    source: SelectionSource,
+    dragging = false
+  ) {
+    const clicked = !this.isDragSequence;
+    const operation =
+      this.selectionOperation === 'add' && clicked
+        ? 'toggle'
+        : this.selectionOperation;
+    this.selectCallback(
+      pointIndices,
+      operation,
+      clicked ? 'click' : source,
+      dragging
+    );
   }
 
   private setNearestPointToMouse(e: MouseEvent) {
-    if (this.pickingTexture == null) {
+    if (this.pickingTargets.length === 0) {
       this.nearestPoint = null;
       return;
     }
@@ -613,10 +870,29 @@ export class ScatterPlot {
       height: 1,
     };
 
+    // Hidden points are drawn with a scale factor of zero.
     const pointIndices = this.getPointIndicesFromBoundingBoxPickingTexture(
       boundingBox
-    );
-    this.nearestPoint = pointIndices.length ? pointIndices[0] : null;
+    ).filter(i => this.pointScaleFactors[i] !== 0);
+    if (pointIndices.length) {
+      this.nearestPoint = pointIndices[0];
+      return;
+    }
+
+    // Points only hide behind each other in 3D, so only snap to them in 2D.
+    const maxDistance =
+      this.snapToNearest && !this.sceneIs3D() ? Infinity : this.hoverRadius;
+    // Positions change every frame of a transition, and the spatial index
+    // isn't worth rebuilding for each.
+    if (maxDistance > 0 && !this.isTransitioning()) {
+      this.nearestPoint = this.findNearestPoint(
+        e.offsetX,
+        e.offsetY,
+        maxDistance
+      );
+    } else {
+      this.nearestPoint = null;
+    }
   }
 
   private computeLayoutValues(): Point2D {
@@ -655,6 +931,22 @@ export class ScatterPlot {
     }
   }
 
+  /**
+   * Sets the region of world space holding the points, resetting the camera to
+   * frame it when it changes.
+   */
+  setWorldFrame(worldFrame: WorldFrame) {
+    const {center, halfSize} = this.worldFrame;
+    if (
+      worldFrame.halfSize === halfSize &&
+      worldFrame.center.every((value, i) => value === center[i])
+    ) {
+      return;
+    }
+    this.worldFrame = worldFrame;
+    this.resetZoom();
+  }
+
   /** Gets the current camera position. */
   getCameraPosition(): Point3D {
     const currPos = this.camera.position;
@@ -676,6 +968,25 @@ export class ScatterPlot {
     this.render();
   }
 
+  /**
+   * Moves the camera target to a point, keeping the camera's distance and
+   * direction to its target.
+   */
+  focusOnPoint(pointIndex: number) {
+    const target = util.vector3FromPackedArray(
+      this.worldSpacePointPositions,
+      pointIndex
+    );
+    const position = this.camera.position
+      .clone()
+      .sub(this.orbitCameraControls.target)
+      .add(target);
+    this.setCameraPositionAndTarget(
+      [position.x, position.y, position.z],
+      [target.x, target.y, target.z]
+    );
+  }
+
   /** Starts orbiting the camera around its current lookat target. */
   startOrbitAnimation() {
     if (!this.sceneIs3D()) {
@@ -735,14 +1046,115 @@ export class ScatterPlot {
     this.visualizers.clear();
   }
 
-  /** Update scatter plot with a new array of packed xyz point positions. */
-  setPointPositions(worldSpacePointPositions: Float32Array) {
+  /**
+   * Update scatter plot with a new array of packed xyz point positions. If a
+   * transition is given and the number of points is unchanged, the points
+   * animate from their current positions, and the returned promise resolves
+   * once the animation finishes or is interrupted by another update.
+   */
+  setPointPositions(
+    worldSpacePointPositions: Float32Array,
+    transition?: TransitionParams
+  ): Promise<void> {
+    this.stopTransition();
+
+    const from = this.worldSpacePointPositions;
+    const canTransition =
+      transition != null &&
+      transition.duration > 0 &&
+      from != null &&
+      from.length === worldSpacePointPositions.length;
+    if (!canTransition) {
+      this.applyPointPositions(worldSpacePointPositions);
+      return Promise.resolve();
+    }
+
+    const {duration, easing} = transition!;
+    const easingFunction = getEasingFunction(easing);
+    const current = new Float32Array(worldSpacePointPositions.length);
+    const start = performance.now();
+
+    return new Promise(resolve => {
+      this.resolveTransition = resolve;
+
+      const step = () => {
+        const t = Math.min((performance.now() - start) / duration, 1);
+        if (t < 1) {
+          const progress = easingFunction(t);
+          interpolatePositions(
+            from,
+            worldSpacePointPositions,
+            progress,
+            current
+          );
+          this.applyPointPositions(current);
+          this.transitionAnimationId = requestAnimationFrame(step);
+        } else {
+          // Finish on the exact target positions, so that picking and
+          // selection use the final positions.
+          this.applyPointPositions(worldSpacePointPositions);
+          this.transitionAnimationId = null;
+          this.resolveTransition = null;
+          resolve();
+        }
+        this.render();
+      };
+      this.transitionAnimationId = requestAnimationFrame(step);
+    });
+  }
+
+  /** Whether the points are currently animating to new positions. */
+  isTransitioning() {
+    return this.transitionAnimationId != null;
+  }
+
+  /**
+   * Stops any running position transition, leaving the points where they
+   * currently are.
+   */
+  stopTransition() {
+    if (this.transitionAnimationId != null) {
+      cancelAnimationFrame(this.transitionAnimationId);
+      this.transitionAnimationId = null;
+    }
+    if (this.resolveTransition != null) {
+      this.resolveTransition();
+      this.resolveTransition = null;
+    }
+  }
+
+  private applyPointPositions(worldSpacePointPositions: Float32Array) {
     this.worldSpacePointPositions = worldSpacePointPositions;
+    this.spatialIndex = null;
+    const pickingEncoding = choosePickingEncoding(
+      this.renderer,
+      worldSpacePointPositions.length / 3
+    );
+    if (pickingEncoding !== this.pickingEncoding) {
+      this.pickingEncoding = pickingEncoding;
+      this.createPickingTargets();
+    }
     this.visualizers.forEach(v =>
       v.onPointPositionsChanged(worldSpacePointPositions)
     );
   }
 
+  /**
+   * Replaces the picking targets with ones for the picking encoding, which
+   * need to be exactly the same size as the canvas.
+   */
+  private createPickingTargets() {
+    this.pickingTargets.forEach(target => target.dispose());
+    const renderCanvasSize = new THREE.Vector2();
+    this.renderer.getSize(renderCanvasSize);
+    const pixelRatio = this.renderer.getPixelRatio();
+    this.pickingTargets = createPickingTargets(
+      renderCanvasSize.width * pixelRatio,
+      renderCanvasSize.height * pixelRatio,
+      this.pickingEncoding
+    );
+  }
+
   render() {
     {
       const lightPos = this.camera.position.clone();
@@ -779,19 +1191,24 @@ export class ScatterPlot {
       this.labels,
       this.polylineColors,
       this.polylineOpacities,
-      this.polylineWidths
+      this.polylineWidths,
+      this.pickingEncoding
     );
 
-    // Render first pass to picking target. This render fills pickingTexture
-    // with colors that are actually point ids, so that sampling the texture at
+    // Render first passes to the picking targets. These renders fill the
+    // targets with colors that are actually point ids, so that sampling them at
     // the mouse's current x,y coordinates will reveal the data point that the
     // mouse is over.
-    this.visualizers.forEach(v => v.onPickingRender(rc));
-
     {
       const axes = this.remove3dAxesFromScene();
-      this.renderer.setRenderTarget(this.pickingTexture);
-      this.renderer.render(this.scene, this.camera);
+      this.renderer.setClearColor(PICKING_CLEAR_COLOR, 1);
+      this.pickingTargets.forEach((target, pass) => {
+        rc.pickingPass = pass;
+        this.visualizers.forEach(v => v.onPickingRender(rc));
+        this.renderer.setRenderTarget(target);
+        this.renderer.render(this.scene, this.camera);
+      });
+      this.renderer.setClearColor(this.styles.backgroundColor, 1);
       if (axes != null) {
         this.scene.add(axes);
       }
@@ -872,18 +1289,7 @@ export class ScatterPlot {
     this.renderer.setPixelRatio(dpr);
     this.renderer.setSize(newW, newH);
 
-    // the picking texture needs to be exactly the same as the render texture.
-    {
-      const renderCanvasSize = new THREE.Vector2();
-      this.renderer.getSize(renderCanvasSize);
-      const pixelRatio = this.renderer.getPixelRatio();
-      this.pickingTexture = new THREE.WebGLRenderTarget(
-        renderCanvasSize.width * pixelRatio,
-        renderCanvasSize.height * pixelRatio
-      );
-
-      this.pickingTexture.texture.minFilter = THREE.LinearFilter;
-    }
+    this.createPickingTargets();
 
     this.visualizers.forEach(v => v.onResize(newW, newH));
 
@@ -901,3 +1307,15 @@ export class ScatterPlot {
     this.onClick(null, false);
   }
 }
+
+/**
+ * Chooses a selection operation from a gesture's modifier keys: ctrl (or cmd)
+ * adds to the selection, alt subtracts from it, and both intersect with it.
+ */
+function getSelectionOperation(e: MouseEvent): SelectionOperation {
+  const add = e.ctrlKey || e.metaKey;
+  if (add && e.altKey) return 'intersect';
+  if (add) return 'add';
+  if (e.altKey) return 'subtract';
+  return 'replace';
+}
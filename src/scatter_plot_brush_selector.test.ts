@@ -0,0 +1,76 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {
+  getStrokeBounds,
+  isPointNearStroke,
+} from './scatter_plot_brush_selector';
+import {Point2D} from './types';
+
+describe('getStrokeBounds', () => {
+  it('pads the extent of the stroke by the radius', () => {
+    const stroke: Point2D[] = [
+      [10, 40],
+      [30, 20],
+      [20, 50],
+    ];
+    expect(getStrokeBounds(stroke, 5)).toEqual({
+      minX: 5,
+      minY: 15,
+      maxX: 35,
+      maxY: 55,
+    });
+  });
+
+  it('is a square around a single position', () => {
+    expect(getStrokeBounds([[100, 100]], 8)).toEqual({
+      minX: 92,
+      minY: 92,
+      maxX: 108,
+      maxY: 108,
+    });
+  });
+});
+
+describe('isPointNearStroke', () => {
+  const stroke: Point2D[] = [
+    [0, 0],
+    [100, 0],
+    [100, 100],
+  ];
+
+  it('includes positions within the radius of any segment', () => {
+    expect(isPointNearStroke(50, 9, stroke, 10)).toBe(true);
+    expect(isPointNearStroke(109, 50, stroke, 10)).toBe(true);
+    expect(isPointNearStroke(100, 110, stroke, 10)).toBe(true);
+  });
+
+  it('leaves out positions beyond the radius', () => {
+    expect(isPointNearStroke(50, 11, stroke, 10)).toBe(false);
+    // Inside the bounds, but far from both segments.
+    expect(isPointNearStroke(40, 60, stroke, 10)).toBe(false);
+  });
+
+  it('rounds the ends of the stroke', () => {
+    expect(isPointNearStroke(-6, -6, stroke, 10)).toBe(true);
+    expect(isPointNearStroke(-8, -8, stroke, 10)).toBe(false);
+  });
+
+  it('measures from a single position as a circle', () => {
+    expect(isPointNearStroke(3, 4, [[0, 0]], 5)).toBe(true);
+    expect(isPointNearStroke(4, 4, [[0, 0]], 5)).toBe(false);
+  });
+});
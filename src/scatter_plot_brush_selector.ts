@@ -0,0 +1,191 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {ScreenBounds} from './spatial_index';
+import {Styles} from './styles';
+import {Point2D} from './types';
+import * as util from './util';
+
+/** The shortest time between selections while dragging, in milliseconds. */
+const DRAG_SELECTION_INTERVAL = 50;
+
+/**
+ * Accepts the positions the brush was dragged through, in container pixel
+ * offsets, its radius, and whether the stroke is still being dragged.
+ */
+export type BrushSelectionCallback = (
+  stroke: Point2D[],
+  radius: number,
+  dragging: boolean
+) => void;
+
+/**
+ * The rectangle around every position within a radius of a brush stroke, in
+ * the units of the stroke.
+ */
+export function getStrokeBounds(stroke: Point2D[], radius: number) {
+  const [minX, maxX] = util.extent(stroke.map(([x]) => x));
+  const [minY, maxY] = util.extent(stroke.map(([, y]) => y));
+  const bounds: ScreenBounds = {
+    minX: minX - radius,
+    minY: minY - radius,
+    maxX: maxX + radius,
+    maxY: maxY + radius,
+  };
+  return bounds;
+}
+
+/**
+ * Whether a position is within a radius of a brush stroke, measured to each
+ * segment between consecutive positions of the stroke.
+ */
+export function isPointNearStroke(
+  x: number,
+  y: number,
+  stroke: Point2D[],
+  radius: number
+) {
+  for (let i = 0; i < stroke.length; i++) {
+    const a = stroke[i];
+    const b = stroke[Math.min(i + 1, stroke.length - 1)];
+    if (util.distanceToSegment(x, y, a, b) <= radius) return true;
+  }
+  return false;
+}
+
+/**
+ * A class that manages and renders a circular brush that follows the cursor,
+ * and the trail it paints while dragging.
+ */
+export class ScatterPlotBrushSelector {
+  private svgElement: SVGElement;
+  private circleElement: SVGCircleElement;
+  private trailElement: SVGPathElement;
+
+  private isMouseDown = false;
+  private stroke: Point2D[] = [];
+  private lastSelectionTime = 0;
+  private radius: number;
+
+  private selectionCallback: BrushSelectionCallback;
+
+  /**
+   * @param container The container HTML element that the brush SVG will be a
+   *     child of.
+   * @param selectionCallback The callback that accepts the brush's stroke,
+   *     called periodically while dragging and on mouseUp.
+   * @param styles The styles object.
+   */
+  constructor(
+    container: HTMLElement,
+    selectionCallback: BrushSelectionCallback,
+    styles: Styles
+  ) {
+    this.svgElement = document.createElementNS(
+      'http://www.w3.org/2000/svg',
+      'svg'
+    );
+    this.svgElement.style.display = 'none';
+    this.svgElement.style.height = '100%';
+    this.svgElement.style.width = '100%';
+    this.svgElement.style.position = 'absolute';
+    this.svgElement.style.pointerEvents = 'none';
+
+    container.insertAdjacentElement('afterbegin', this.svgElement);
+
+    const {select} = styles;
+    this.trailElement = document.createElementNS(
+      'http://www.w3.org/2000/svg',
+      'path'
+    );
+    this.trailElement.style.fill = 'none';
+    this.trailElement.style.stroke = select.fill;
+    this.trailElement.style.strokeOpacity = `${select.fillOpacity}`;
+    this.trailElement.style.strokeLinecap = 'round';
+    this.trailElement.style.strokeLinejoin = 'round';
+    this.svgElement.appendChild(this.trailElement);
+
+    this.circleElement = document.createElementNS(
+      'http://www.w3.org/2000/svg',
+      'circle'
+    );
+    this.circleElement.style.stroke = select.stroke;
+    this.circleElement.style.strokeDasharray = select.strokeDashArray;
+    this.circleElement.style.strokeWidth = `${select.strokeWidth}`;
+    this.circleElement.style.fill = select.fill;
+    this.circleElement.style.fillOpacity = `${select.fillOpacity}`;
+    this.svgElement.appendChild(this.circleElement);
+    this.selectionCallback = selectionCallback;
+    this.radius = select.brushRadius;
+    this.setRadius(select.brushRadius);
+  }
+
+  /** Sets the radius of the brush, in CSS pixels. */
+  setRadius(radius: number) {
+    this.radius = radius;
+    this.circleElement.setAttribute('r', `${radius}`);
+    this.trailElement.style.strokeWidth = `${radius * 2}`;
+  }
+
+  /** Shows or hides the brush, e.g. when the cursor enters or leaves. */
+  setVisible(visible: boolean) {
+    this.svgElement.style.display = visible ? 'block' : 'none';
+  }
+
+  onMouseDown(offsetX: number, offsetY: number) {
+    this.isMouseDown = true;
+    this.stroke = [[offsetX, offsetY]];
+    this.lastSelectionTime = 0;
+    this.moveCircle(offsetX, offsetY);
+    this.updateTrail();
+  }
+
+  /**
+   * Moves the brush, extending the trail while the mouse is down and selecting
+   * the points it has passed over at most every `DRAG_SELECTION_INTERVAL`.
+   */
+  onMouseMove(offsetX: number, offsetY: number) {
+    this.moveCircle(offsetX, offsetY);
+    if (!this.isMouseDown) {
+      return;
+    }
+    this.stroke.push([offsetX, offsetY]);
+    this.updateTrail();
+    const now = Date.now();
+    if (now - this.lastSelectionTime >= DRAG_SELECTION_INTERVAL) {
+      this.lastSelectionTime = now;
+      this.selectionCallback(this.stroke, this.radius, true);
+    }
+  }
+
+  onMouseUp() {
+    this.isMouseDown = false;
+    this.trailElement.setAttribute('d', '');
+    this.selectionCallback(this.stroke, this.radius, false);
+  }
+
+  private moveCircle(offsetX: number, offsetY: number) {
+    this.circleElement.setAttribute('cx', `${offsetX}`);
+    this.circleElement.setAttribute('cy', `${offsetY}`);
+  }
+
+  private updateTrail() {
+    // A zero-length segment keeps a single position drawn as a round dot.
+    const [[startX, startY]] = this.stroke;
+    const d = this.stroke.map(([x, y]) => `L${x},${y}`).join(' ');
+    this.trailElement.setAttribute('d', `M${startX},${startY} ${d}`);
+  }
+}
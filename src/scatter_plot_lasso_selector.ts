@@ -0,0 +1,102 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {Styles} from './styles';
+import {Point2D} from './types';
+
+/**
+ * A class that manages and renders a free-form lasso selection polygon.
+ */
+export class ScatterPlotLassoSelector {
+  private svgElement: SVGElement;
+  private pathElement: SVGPathElement;
+
+  private isMouseDown = false;
+  private polygon: Point2D[] = [];
+
+  private selectionCallback: (polygon: Point2D[]) => void;
+
+  /**
+   * @param container The container HTML element that the selection SVG path
+   *     will be a child of.
+   * @param selectionCallback The callback that accepts the vertices of the
+   *     lasso polygon, in container pixel offsets, called on mouseUp.
+   * @param styles The styles object.
+   */
+  constructor(
+    container: HTMLElement,
+    selectionCallback: (polygon: Point2D[]) => void,
+    styles: Styles
+  ) {
+    this.svgElement = document.createElementNS(
+      'http://www.w3.org/2000/svg',
+      'svg'
+    );
+    this.svgElement.style.display = 'none';
+    this.svgElement.style.height = '100%';
+    this.svgElement.style.width = '100%';
+    this.svgElement.style.position = 'absolute';
+
+    container.insertAdjacentElement('afterbegin', this.svgElement);
+
+    this.pathElement = document.createElementNS(
+      'http://www.w3.org/2000/svg',
+      'path'
+    );
+
+    this.pathElement.style.stroke = styles.select.stroke;
+    this.pathElement.style.strokeDasharray = styles.select.strokeDashArray;
+    this.pathElement.style.strokeWidth = `${styles.select.strokeWidth}`;
+    this.pathElement.style.fill = styles.select.fill;
+    this.pathElement.style.fillOpacity = `${styles.select.fillOpacity}`;
+    this.svgElement.appendChild(this.pathElement);
+    this.selectionCallback = selectionCallback;
+  }
+
+  onMouseDown(offsetX: number, offsetY: number) {
+    this.isMouseDown = true;
+    this.svgElement.style.display = 'block';
+    this.polygon = [[offsetX, offsetY]];
+    this.updatePath();
+  }
+
+  onMouseMove(offsetX: number, offsetY: number) {
+    if (!this.isMouseDown) {
+      return;
+    }
+    // Skip vertices that don't move the lasso by at least a pixel.
+    const [lastX, lastY] = this.polygon[this.polygon.length - 1];
+    if (Math.abs(offsetX - lastX) < 1 && Math.abs(offsetY - lastY) < 1) {
+      return;
+    }
+    this.polygon.push([offsetX, offsetY]);
+    this.updatePath();
+  }
+
+  onMouseUp() {
+    this.isMouseDown = false;
+    this.svgElement.style.display = 'none';
+    this.pathElement.setAttribute('d', '');
+    this.selectionCallback(this.polygon);
+  }
+
+  private updatePath() {
+    const d = this.polygon
+      .map(([x, y], i) => `${i === 0 ? 'M' : 'L'}${x},${y}`)
+      .join(' ');
+    this.pathElement.setAttribute('d', `${d} Z`);
+  }
+}
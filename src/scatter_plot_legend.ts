@@ -0,0 +1,196 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+import {ColorScale} from './color_by';
+import {Styles} from './styles';
+
+export type Category = number | string;
+
+/**
+ * A DOM legend overlaid on a corner of the container, showing the categories
+ * or the color ramp of a color scale. Hovering a category highlights it, and
+ * clicking a category toggles its visibility.
+ */
+export class ScatterPlotLegend {
+  private element: HTMLDivElement;
+  private scale: ColorScale | null = null;
+  /** The row of each shown category, to update when categories toggle. */
+  private rows = new Map<Category, HTMLDivElement>();
+  private hoveredCategory: Category | null = null;
+
+  /**
+   * @param container The container HTML element that the legend will be a
+   *     child of.
+   * @param styles The styles object.
+   * @param onHoverCategory Called with the hovered category, or null.
+   * @param onToggleCategory Called with a clicked category.
+   */
+  constructor(
+    container: HTMLElement,
+    private styles: Styles,
+    private onHoverCategory: (category: Category | null) => void,
+    private onToggleCategory: (category: Category) => void
+  ) {
+    const {legend} = styles;
+    this.element = document.createElement('div');
+    const {style} = this.element;
+    style.position = 'absolute';
+    style.display = 'none';
+    style.backgroundColor = legend.backgroundColor;
+    style.color = legend.color;
+    style.fontSize = `${legend.fontSize}px`;
+    style.padding = `${legend.padding}px`;
+    style.borderRadius = '2px';
+    style.userSelect = 'none';
+    const [vertical, horizontal] = legend.position.split('-');
+    style[vertical as 'top' | 'bottom'] = '0';
+    style[horizontal as 'left' | 'right'] = '0';
+
+    // Keep the scatter plot from treating legend interactions as its own.
+    for (const type of ['pointerdown', 'pointermove', 'pointerup', 'click']) {
+      this.element.addEventListener(type, e => e.stopPropagation());
+    }
+    container.appendChild(this.element);
+  }
+
+  /**
+   * Shows a color scale, or hides the legend when it is null.
+   *
+   * @param hiddenCategories categories shown as toggled off
+   */
+  setColorScale(scale: ColorScale | null, hiddenCategories: Set<Category>) {
+    // Update the rows in place when only the hidden categories change, so the
+    // hovered row stays under the pointer and still gets its mouseleave.
+    if (scale && scale === this.scale) {
+      this.rows.forEach((row, category) => {
+        row.style.opacity = this.getRowOpacity(category, hiddenCategories);
+      });
+      return;
+    }
+    this.scale = scale;
+    this.rows.clear();
+    // The hovered row is about to be removed without a mouseleave.
+    if (this.hoveredCategory !== null) {
+      this.hoveredCategory = null;
+      this.onHoverCategory(null);
+    }
+
+    const {element} = this;
+    while (element.firstChild) {
+      element.removeChild(element.firstChild);
+    }
+    if (!scale) {
+      element.style.display = 'none';
+      return;
+    }
+    element.style.display = 'block';
+
+    const title = document.createElement('div');
+    title.textContent = scale.field;
+    title.style.fontWeight = 'bold';
+    title.style.marginBottom = '4px';
+    element.appendChild(title);
+
+    if (scale.type === 'categorical') {
+      this.makeCategories(scale.categories, scale.colors, hiddenCategories);
+    } else {
+      this.makeRamp(scale.domain, scale.colors);
+    }
+  }
+
+  dispose() {
+    const {parentElement} = this.element;
+    if (parentElement) parentElement.removeChild(this.element);
+  }
+
+  private makeCategories(
+    categories: Category[],
+    colors: string[],
+    hiddenCategories: Set<Category>
+  ) {
+    const {legend} = this.styles;
+    const shown = categories.slice(0, legend.maxCategories);
+    shown.forEach((category, i) => {
+      const row = document.createElement('div');
+      row.style.display = 'flex';
+      row.style.alignItems = 'center';
+      row.style.cursor = 'pointer';
+      row.style.opacity = this.getRowOpacity(category, hiddenCategories);
+
+      const swatch = document.createElement('span');
+      swatch.style.width = `${legend.swatchSize}px`;
+      swatch.style.height = `${legend.swatchSize}px`;
+      swatch.style.marginRight = '6px';
+      swatch.style.backgroundColor = colors[i];
+      swatch.style.flexShrink = '0';
+      row.appendChild(swatch);
+
+      const label = document.createElement('span');
+      label.textContent = String(category);
+      row.appendChild(label);
+
+      row.addEventListener('mouseenter', () => this.hoverCategory(category));
+      row.addEventListener('mouseleave', () => this.hoverCategory(null));
+      row.addEventListener('click', () => this.onToggleCategory(category));
+      this.element.appendChild(row);
+      this.rows.set(category, row);
+    });
+
+    const remaining = categories.length - shown.length;
+    if (remaining > 0) {
+      const more = document.createElement('div');
+      more.textContent = `+${remaining} more`;
+      more.style.fontStyle = 'italic';
+      this.element.appendChild(more);
+    }
+  }
+
+  private getRowOpacity(category: Category, hiddenCategories: Set<Category>) {
+    return hiddenCategories.has(category)
+      ? `${this.styles.legend.hiddenOpacity}`
+      : '1';
+  }
+
+  private hoverCategory(category: Category | null) {
+    this.hoveredCategory = category;
+    this.onHoverCategory(category);
+  }
+
+  private makeRamp(domain: number[], colors: string[]) {
+    const {legend} = this.styles;
+    const ramp = document.createElement('div');
+    ramp.style.width = `${legend.rampWidth}px`;
+    ramp.style.height = `${legend.swatchSize}px`;
+    ramp.style.background = `linear-gradient(to right, ${colors.join(', ')})`;
+    this.element.appendChild(ramp);
+
+    const ticks = document.createElement('div');
+    ticks.style.display = 'flex';
+    ticks.style.justifyContent = 'space-between';
+    ticks.style.width = `${legend.rampWidth}px`;
+    for (const value of domain) {
+      const tick = document.createElement('span');
+      tick.textContent = formatNumber(value);
+      ticks.appendChild(tick);
+    }
+    this.element.appendChild(ticks);
+  }
+}
+
+function formatNumber(value: number) {
+  return Number.isInteger(value) ? `${value}` : `${+value.toPrecision(3)}`;
+}
@@ -0,0 +1,112 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {Styles} from './styles';
+
+/**
+ * A DOM search box overlaid on a corner of the container, with the number of
+ * matches and buttons to step through them. Enter steps to the next match,
+ * and shift+enter to the previous one.
+ */
+export class ScatterPlotSearchBox {
+  private element: HTMLDivElement;
+  private input: HTMLInputElement;
+  private status: HTMLSpanElement;
+
+  /**
+   * @param container The container HTML element that the search box will be
+   *     a child of.
+   * @param styles The styles object.
+   * @param onSearch Called with the text as it is typed.
+   * @param onStep Called with 1 or -1 to step to the next or previous match.
+   */
+  constructor(
+    container: HTMLElement,
+    styles: Styles,
+    private onSearch: (text: string) => void,
+    private onStep: (step: number) => void
+  ) {
+    const {search} = styles;
+    this.element = document.createElement('div');
+    const {style} = this.element;
+    style.position = 'absolute';
+    style.display = 'flex';
+    style.alignItems = 'center';
+    style.backgroundColor = search.backgroundColor;
+    style.fontSize = `${search.fontSize}px`;
+    style.padding = `${search.padding}px`;
+    style.borderRadius = '2px';
+    const [vertical, horizontal] = search.position.split('-');
+    style[vertical as 'top' | 'bottom'] = '0';
+    style[horizontal as 'left' | 'right'] = '0';
+
+    this.input = document.createElement('input');
+    this.input.type = 'search';
+    this.input.placeholder = 'Search labels';
+    this.input.style.width = `${search.inputWidth}px`;
+    this.input.style.fontSize = `${search.fontSize}px`;
+    this.input.addEventListener('input', () => this.onSearch(this.input.value));
+    this.input.addEventListener('keydown', e => {
+      if (e.key === 'Enter') this.onStep(e.shiftKey ? -1 : 1);
+    });
+    this.element.appendChild(this.input);
+
+    this.status = document.createElement('span');
+    this.status.style.margin = '0 6px';
+    this.element.appendChild(this.status);
+
+    this.element.appendChild(this.makeButton('‹', 'Previous match', -1));
+    this.element.appendChild(this.makeButton('›', 'Next match', 1));
+
+    // Keep the scatter plot from treating search box interactions as its own.
+    for (const type of ['pointerdown', 'pointermove', 'pointerup', 'click']) {
+      this.element.addEventListener(type, e => e.stopPropagation());
+    }
+    container.appendChild(this.element);
+  }
+
+  /**
+   * Shows the number of matches and which one is focused, or an error, or
+   * nothing when there is no search.
+   *
+   * @param focus the 0-based position of the focused match, or -1 if none
+   */
+  setStatus(matchCount: number | null, focus = -1, error?: string) {
+    if (error) {
+      this.status.textContent = error;
+    } else if (matchCount === null) {
+      this.status.textContent = '';
+    } else if (focus >= 0) {
+      this.status.textContent = `${focus + 1} of ${matchCount}`;
+    } else {
+      const matches = matchCount === 1 ? 'match' : 'matches';
+      this.status.textContent = `${matchCount} ${matches}`;
+    }
+  }
+
+  dispose() {
+    const {parentElement} = this.element;
+    if (parentElement) parentElement.removeChild(this.element);
+  }
+
+  private makeButton(text: string, title: string, step: number) {
+    const button = document.createElement('button');
+    button.textContent = text;
+    button.title = title;
+    button.addEventListener('click', () => this.onStep(step));
+    return button;
+  }
+}
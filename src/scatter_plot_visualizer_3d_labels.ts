@@ -17,11 +17,11 @@ limitations under the License.
 
 import * as THREE from 'three';
 import {ScatterPlotVisualizer} from './scatter_plot_visualizer';
+import {PickingColors} from './picking';
 import {RenderContext} from './render';
 import {Styles} from './styles';
 import * as util from './util';
 import {
-  RGB_NUM_ELEMENTS,
   RGBA_NUM_ELEMENTS,
   UV_NUM_ELEMENTS,
   XYZ_NUM_ELEMENTS,
@@ -82,6 +82,8 @@ const FRAGMENT_SHADER = `
 
       void main() {
         if (picking) {
+          // Hidden labels leave the labels behind them pickable.
+          if (vColor.a == 0.0) discard;
           gl_FragColor = vColor;
         } else {
           vec4 fromTexture = texture(glyphTexture, vUv);
@@ -105,7 +107,7 @@ export class ScatterPlotVisualizer3DLabels implements ScatterPlotVisualizer {
   private labelStrings: string[] = [];
   private geometry!: THREE.BufferGeometry;
   private worldSpacePointPositions = new Float32Array(0);
-  private pickingColors = new Float32Array(0);
+  private pickingColors = new PickingColors(0, j => j);
   private renderColors = new Float32Array(0);
   private material!: THREE.ShaderMaterial;
   private uniforms: {[uniform: string]: THREE.IUniform} = {};
@@ -165,24 +167,23 @@ export class ScatterPlotVisualizer3DLabels implements ScatterPlotVisualizer {
   }
 
   private createColorBuffers(pointCount: number) {
-    this.pickingColors = new Float32Array(
-      this.totalVertexCount * RGB_NUM_ELEMENTS
-    );
+    const vertexPointIds = new Float64Array(this.totalVertexCount);
     this.renderColors = new Float32Array(
-      this.totalVertexCount * RGB_NUM_ELEMENTS
+      this.totalVertexCount * RGBA_NUM_ELEMENTS
     );
     for (let i = 0; i < pointCount; i++) {
       this.labelVertexMap[i].forEach(j => {
-        const encodedId = util.encodeIdToRgb(i);
-
-        this.pickingColors[RGB_NUM_ELEMENTS * j] = encodedId.r;
-        this.pickingColors[RGB_NUM_ELEMENTS * j + 1] = encodedId.g;
-        this.pickingColors[RGB_NUM_ELEMENTS * j + 2] = encodedId.b;
-        this.renderColors[RGB_NUM_ELEMENTS * j] = 1.0;
-        this.renderColors[RGB_NUM_ELEMENTS * j + 1] = 1.0;
-        this.renderColors[RGB_NUM_ELEMENTS * j + 2] = 1.0;
+        vertexPointIds[j] = i;
+        this.renderColors[RGBA_NUM_ELEMENTS * j] = 1.0;
+        this.renderColors[RGBA_NUM_ELEMENTS * j + 1] = 1.0;
+        this.renderColors[RGBA_NUM_ELEMENTS * j + 2] = 1.0;
+        this.renderColors[RGBA_NUM_ELEMENTS * j + 3] = 1.0;
       });
     }
+    this.pickingColors = new PickingColors(
+      this.totalVertexCount,
+      j => vertexPointIds[j]
+    );
   }
 
   private createLabels() {
@@ -219,11 +220,11 @@ export class ScatterPlotVisualizer3DLabels implements ScatterPlotVisualizer {
     let posArray = new Float32Array(this.totalVertexCount * XYZ_NUM_ELEMENTS);
     let uvArray = new Float32Array(this.totalVertexCount * UV_NUM_ELEMENTS);
     let colorsArray = new Float32Array(
-      this.totalVertexCount * RGB_NUM_ELEMENTS
+      this.totalVertexCount * RGBA_NUM_ELEMENTS
     );
     let positionObject = new THREE.BufferAttribute(posArray, 2);
     let uv = new THREE.BufferAttribute(uvArray, UV_NUM_ELEMENTS);
-    let colors = new THREE.BufferAttribute(colorsArray, RGB_NUM_ELEMENTS);
+    let colors = new THREE.BufferAttribute(colorsArray, RGBA_NUM_ELEMENTS);
 
     this.geometry = new THREE.BufferGeometry();
     this.geometry.setAttribute('posObj', positionObject);
@@ -310,9 +311,10 @@ export class ScatterPlotVisualizer3DLabels implements ScatterPlotVisualizer {
         pointColors[src + 1],
         pointColors[src + 2]
       );
+      const opacity = pointColors[src + 3];
       const m = this.labelVertexMap[i].length;
       for (let j = 0; j < m; ++j) {
-        colors.setXYZ(this.labelVertexMap[i][j], c.r, c.g, c.b);
+        colors.setXYZW(this.labelVertexMap[i][j], c.r, c.g, c.b, opacity);
       }
       src += RGBA_NUM_ELEMENTS;
     }
@@ -348,11 +350,34 @@ export class ScatterPlotVisualizer3DLabels implements ScatterPlotVisualizer {
     }
     this.material.uniforms.glyphTexture.value = this.glyphTexture.texture;
     this.material.uniforms.picking.value = true;
+    // Ids are opaque, and float picking targets may not support blending.
+    this.material.blending = THREE.NoBlending;
     const colors = this.geometry.getAttribute('color') as THREE.BufferAttribute;
-    colors.array = this.pickingColors;
+    colors.array = this.hideLabels(
+      this.pickingColors.get(rc.pickingEncoding, rc.pickingPass),
+      rc.pointScaleFactors
+    );
     colors.needsUpdate = true;
   }
 
+  /**
+   * Makes the picking colors of hidden points, which have a scale factor of
+   * zero, transparent so that they can't be picked. Returns the colors as is
+   * when no point is hidden.
+   */
+  private hideLabels(pickingColors: Float32Array, scaleFactors: Float32Array) {
+    let colors = pickingColors;
+    const n = Math.min(scaleFactors.length, this.labelVertexMap.length);
+    for (let i = 0; i < n; i++) {
+      if (scaleFactors[i] !== 0) continue;
+      if (colors === pickingColors) colors = pickingColors.slice();
+      for (const j of this.labelVertexMap[i]) {
+        colors[j * RGBA_NUM_ELEMENTS + 3] = 0;
+      }
+    }
+    return colors;
+  }
+
   onRender(rc: RenderContext) {
     if (this.geometry == null) {
       this.createLabels();
@@ -361,14 +386,31 @@ export class ScatterPlotVisualizer3DLabels implements ScatterPlotVisualizer {
     this.colorLabels(rc.pointColors);
     this.material.uniforms.glyphTexture.value = this.glyphTexture.texture;
     this.material.uniforms.picking.value = false;
+    this.material.blending = THREE.NormalBlending;
     const colors = this.geometry.getAttribute('color') as THREE.BufferAttribute;
     colors.array = this.renderColors;
     colors.needsUpdate = true;
   }
 
   onPointPositionsChanged(newPositions: Float32Array) {
+    const pointCountChanged =
+      this.worldSpacePointPositions == null ||
+      this.worldSpacePointPositions.length !== newPositions.length;
     this.worldSpacePointPositions = newPositions;
-    this.dispose();
+    if (this.geometry == null || pointCountChanged) {
+      this.dispose();
+      return;
+    }
+
+    // The labels are unchanged, so only move them to their new positions.
+    const pointCount = newPositions.length / XYZ_NUM_ELEMENTS;
+    for (let i = 0; i < pointCount; i++) {
+      const p = util.vector3FromPackedArray(newPositions, i);
+      this.labelVertexMap[i].forEach(j => {
+        this.positions.setXYZ(j, p.x, p.y, p.z);
+      });
+    }
+    this.positions.needsUpdate = true;
   }
 
   setLabelStrings(labelStrings: string[]) {
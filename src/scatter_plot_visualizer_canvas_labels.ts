@@ -19,10 +19,16 @@ import * as THREE from 'three';
 import {ScatterPlotVisualizer} from './scatter_plot_visualizer';
 import {CameraType, RenderContext} from './render';
 import {BoundingBox, CollisionGrid} from './label';
+import {ScreenProjection} from './spatial_index';
 import {Styles} from './styles';
 import * as util from './util';
 
 const MAX_LABELS_ON_SCREEN = 10000;
+/**
+ * Labels are drawn to the right of their points, so the labels of points up to
+ * this many pixels left of the canvas may still be visible.
+ */
+const LABEL_CULLING_MARGIN = 200;
 
 /**
  * Creates and maintains a 2d canvas on top of the GL canvas. All labels, when
@@ -95,8 +101,19 @@ export class ScatterPlotVisualizerCanvasLabels
     // Shift the label to the right of the point circle.
     const xShift = 4;
 
-    const n = Math.min(MAX_LABELS_ON_SCREEN, lrc.pointIndices.length);
-    for (let i = 0; i < n; ++i) {
+    // Skip the labels of offscreen points, so that they don't count against
+    // the labels on screen.
+    const projection = new ScreenProjection(
+      rc.camera,
+      this.canvas.width,
+      this.canvas.height
+    );
+    const screen = [0, 0, 0];
+    let labelCount = 0;
+    for (let i = 0; i < lrc.pointIndices.length; ++i) {
+      if (labelCount >= MAX_LABELS_ON_SCREEN) {
+        break;
+      }
       let point: THREE.Vector3;
       {
         const pi = lrc.pointIndices[i];
@@ -108,13 +125,20 @@ export class ScatterPlotVisualizerCanvasLabels
       if (camToTarget.dot(camToPoint) < 0) {
         continue;
       }
+      if (!projection.project(point.x, point.y, point.z, screen)) {
+        continue;
+      }
 
-      let [x, y] = util.vector3DToScreenCoords(
-        rc.camera,
-        rc.screenWidth,
-        rc.screenHeight,
-        point
-      );
+      let [x, y] = screen;
+      if (
+        x < -LABEL_CULLING_MARGIN ||
+        x > this.canvas.width ||
+        y < -labelHeight ||
+        y > this.canvas.height + labelHeight
+      ) {
+        continue;
+      }
+      labelCount++;
       x += xShift;
 
       // Computing the width of the font is expensive,
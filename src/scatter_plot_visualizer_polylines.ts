@@ -29,6 +29,7 @@ export class ScatterPlotVisualizerPolylines implements ScatterPlotVisualizer {
   public id = 'POLYLINES';
 
   private sequences: Sequence[] = [];
+  private sequencesChanged = true;
   private scene!: THREE.Scene;
   private polylines: THREE.LineSegments[] = [];
   private polylinePositionBuffer: {
@@ -92,6 +93,7 @@ export class ScatterPlotVisualizerPolylines implements ScatterPlotVisualizer {
     this.polylines = [];
     this.polylinePositionBuffer = {};
     this.polylineColorBuffer = {};
+    this.sequencesChanged = true;
   }
 
   setScene(scene: THREE.Scene) {
@@ -100,6 +102,7 @@ export class ScatterPlotVisualizerPolylines implements ScatterPlotVisualizer {
 
   setSequences(sequences: Sequence[]) {
     this.sequences = sequences;
+    this.sequencesChanged = true;
   }
 
   onPointPositionsChanged(newPositions: Float32Array) {
@@ -108,6 +111,13 @@ export class ScatterPlotVisualizerPolylines implements ScatterPlotVisualizer {
       return;
     }
 
+    // When only the positions changed, e.g. during a transition, update the
+    // existing polylines in place.
+    if (!this.sequencesChanged && this.polylines.length > 0) {
+      this.setPolylinePositions(newPositions);
+      return;
+    }
+
     // Set up the position buffer arrays for each polyline.
     for (let i = 0; i < this.sequences.length; i++) {
       let sequence = this.sequences[i];
@@ -125,6 +135,12 @@ export class ScatterPlotVisualizerPolylines implements ScatterPlotVisualizer {
         RGBA_NUM_ELEMENTS
       );
     }
+    this.setPolylinePositions(newPositions);
+    this.createPolylines();
+    this.sequencesChanged = false;
+  }
+
+  private setPolylinePositions(newPositions: Float32Array) {
     for (let i = 0; i < this.sequences.length; i++) {
       const sequence = this.sequences[i];
       let src = 0;
@@ -139,8 +155,6 @@ export class ScatterPlotVisualizerPolylines implements ScatterPlotVisualizer {
       }
       this.polylinePositionBuffer[i].needsUpdate = true;
     }
-
-    this.createPolylines();
   }
 
   onRender(renderContext: RenderContext) {
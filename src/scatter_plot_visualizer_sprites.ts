@@ -17,6 +17,7 @@ limitations under the License.
 
 import * as THREE from 'three';
 import {ScatterPlotVisualizer} from './scatter_plot_visualizer';
+import {PickingColors} from './picking';
 import {CameraType, RenderContext} from './render';
 import {Styles} from './styles';
 import * as util from './util';
@@ -87,6 +88,12 @@ const makeVertexShader = (minPointSize: number) => `
 
       gl_PointSize =
         max(outputPointSize * scaleFactor, ${minPointSize.toFixed(1)});
+
+      // Points scaled to nothing are hidden, so move them out of clip space
+      // rather than drawing them at the minimum size.
+      if (scaleFactor <= 0.0) {
+        gl_Position = vec4(2.0, 2.0, 2.0, 1.0);
+      }
     }`;
 
 const FRAGMENT_SHADER_POINT_TEST_CHUNK = `
@@ -190,8 +197,9 @@ export class ScatterPlotVisualizerSprites implements ScatterPlotVisualizer {
   private spriteDimensions = [0, 0];
 
   private points!: THREE.Points;
+  private pointCapacity = 0;
   private worldSpacePointPositions = new Float32Array(0);
-  private pickingColors = new Float32Array(0);
+  private pickingColors = new PickingColors(0, i => i);
   private renderColors = new Float32Array(0);
 
   constructor(private styles: Styles, spriteSheetParams?: SpriteSheetParams) {
@@ -247,18 +255,19 @@ export class ScatterPlotVisualizerSprites implements ScatterPlotVisualizer {
       depthTest: true,
       depthWrite: true,
       fog: false,
-      blending: THREE.NormalBlending,
+      // Ids are opaque, and float picking targets may not support blending.
+      blending: THREE.NoBlending,
     });
   }
 
   /**
-   * Create points, set their locations and actually instantiate the
-   * geometry.
+   * Create points and actually instantiate the geometry, with room for
+   * `pointCapacity` points so that the point count can grow without
+   * recreating the buffers.
    */
-  private createPointSprites(scene: THREE.Scene, positions: Float32Array) {
-    const pointCount =
-      positions != null ? positions.length / XYZ_NUM_ELEMENTS : 0;
-    const geometry = this.createGeometry(pointCount);
+  private createPointSprites(scene: THREE.Scene, pointCapacity: number) {
+    this.pointCapacity = pointCapacity;
+    const geometry = this.createGeometry(pointCapacity);
 
     this.fog = new THREE.Fog(0xffffff); // unused value, gets overwritten.
 
@@ -296,31 +305,30 @@ export class ScatterPlotVisualizerSprites implements ScatterPlotVisualizer {
   private createGeometry(pointCount: number): THREE.BufferGeometry {
     const n = pointCount;
 
-    // Fill pickingColors with each point's unique id as its color.
-    this.pickingColors = new Float32Array(n * RGBA_NUM_ELEMENTS);
-    {
-      for (let i = 0; i < n; i++) {
-        const encodedId = util.encodeIdToRgb(i);
-
-        this.pickingColors[i * 4] = encodedId.r;
-        this.pickingColors[i * 4 + 1] = encodedId.g;
-        this.pickingColors[i * 4 + 2] = encodedId.b;
-        this.pickingColors[i * 4 + 3] = 1; // Alpha
-      }
-    }
+    // Color each point with its unique id when picking.
+    this.pickingColors = new PickingColors(n, i => i);
 
     const geometry = new THREE.BufferGeometry();
     geometry.setAttribute(
       'position',
-      new THREE.BufferAttribute(new Float32Array([]), XYZ_NUM_ELEMENTS)
+      new THREE.BufferAttribute(
+        new Float32Array(n * XYZ_NUM_ELEMENTS),
+        XYZ_NUM_ELEMENTS
+      )
     );
     geometry.setAttribute(
       'color',
-      new THREE.BufferAttribute(new Float32Array([]), RGBA_NUM_ELEMENTS)
+      new THREE.BufferAttribute(
+        new Float32Array(n * RGBA_NUM_ELEMENTS),
+        RGBA_NUM_ELEMENTS
+      )
     );
     geometry.setAttribute(
       'scaleFactor',
-      new THREE.BufferAttribute(new Float32Array([]), INDEX_NUM_ELEMENTS)
+      new THREE.BufferAttribute(
+        new Float32Array(n * INDEX_NUM_ELEMENTS),
+        INDEX_NUM_ELEMENTS
+      )
     );
     geometry.computeVertexNormals();
     return geometry;
@@ -355,6 +363,7 @@ export class ScatterPlotVisualizerSprites implements ScatterPlotVisualizer {
       this.points.geometry.dispose();
       (this.points as any) = null;
       (this.worldSpacePointPositions as any) = null;
+      this.pointCapacity = 0;
     }
   }
 
@@ -397,6 +406,12 @@ export class ScatterPlotVisualizerSprites implements ScatterPlotVisualizer {
     this.setSpriteIndexBuffer();
   }
 
+  /** Replaces the sprite index of every point, e.g. after points change. */
+  setSpriteIndices(spriteIndices: Float32Array) {
+    this.spriteSheetParams.spriteIndices = spriteIndices;
+    this.setSpriteIndexBuffer();
+  }
+
   private setSpriteIndexBuffer() {
     const {spriteIndices} = this.spriteSheetParams;
 
@@ -414,36 +429,44 @@ export class ScatterPlotVisualizerSprites implements ScatterPlotVisualizer {
   }
 
   onPointPositionsChanged(newPositions: Float32Array) {
-    if (this.points != null) {
-      if (this.worldSpacePointPositions.length !== newPositions.length) {
-        this.disposeGeometry();
-      }
+    const pointCount = newPositions.length / XYZ_NUM_ELEMENTS;
+    const {pointCapacity} = this;
+
+    // Only recreate the geometry when the points outgrow the buffers. When
+    // growing an existing geometry, leave headroom for further appends.
+    if (this.points != null && pointCount > pointCapacity) {
+      this.disposeGeometry();
+      this.pointCapacity = Math.max(pointCount, Math.ceil(pointCapacity * 1.5));
     }
 
     this.worldSpacePointPositions = newPositions;
 
     if (this.points == null) {
-      this.createPointSprites(this.scene, newPositions);
+      this.createPointSprites(
+        this.scene,
+        Math.max(pointCount, this.pointCapacity)
+      );
     }
 
     if (this.spriteSheetParams) {
       this.setSpriteIndexBuffer();
     }
 
-    this.renderMaterial = this.createRenderMaterial();
-    this.pickingMaterial = this.createPickingMaterial();
+    if (this.renderMaterial == null) {
+      this.renderMaterial = this.createRenderMaterial();
+    }
+    if (this.pickingMaterial == null) {
+      this.pickingMaterial = this.createPickingMaterial();
+    }
 
     const positions = (this.points
       .geometry as THREE.BufferGeometry).getAttribute(
       'position'
     ) as THREE.BufferAttribute;
-
-    this.points.geometry.setAttribute(
-      'position',
-      new THREE.BufferAttribute(newPositions, XYZ_NUM_ELEMENTS)
-    );
-
+    (positions.array as Float32Array).set(newPositions);
     positions.needsUpdate = true;
+
+    this.points.geometry.setDrawRange(0, pointCount);
   }
 
   onPickingRender(rc: RenderContext) {
@@ -460,11 +483,7 @@ export class ScatterPlotVisualizerSprites implements ScatterPlotVisualizer {
     let colors = (this.points.geometry as THREE.BufferGeometry).getAttribute(
       'color'
     ) as THREE.BufferAttribute;
-    this.points.geometry.setAttribute(
-      'color',
-      new THREE.BufferAttribute(this.pickingColors, RGBA_NUM_ELEMENTS)
-    );
-    colors.array = this.pickingColors;
+    colors.array = this.pickingColors.get(rc.pickingEncoding, rc.pickingPass);
     colors.needsUpdate = true;
 
     let scaleFactors = (this.points
@@ -0,0 +1,54 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {applySelectionOperation, diffSelections} from './selection';
+
+describe('applySelectionOperation', () => {
+  const selection = new Set([1, 2, 3]);
+
+  it('combines a gesture with the selection', () => {
+    const apply = (operation: Parameters<typeof applySelectionOperation>[2]) =>
+      [...applySelectionOperation(selection, [3, 4], operation)].sort();
+    expect(apply('replace')).toEqual([3, 4]);
+    expect(apply('add')).toEqual([1, 2, 3, 4]);
+    expect(apply('subtract')).toEqual([1, 2]);
+    expect(apply('intersect')).toEqual([3]);
+    expect(apply('toggle')).toEqual([1, 2, 4]);
+  });
+
+  it('toggles repeated points once', () => {
+    const result = applySelectionOperation(selection, [4, 4, 1, 1], 'toggle');
+    expect([...result].sort()).toEqual([2, 3, 4]);
+  });
+
+  it('leaves the selection unchanged', () => {
+    applySelectionOperation(selection, [1], 'subtract');
+    applySelectionOperation(selection, [5], 'add');
+    expect([...selection]).toEqual([1, 2, 3]);
+  });
+});
+
+describe('diffSelections', () => {
+  it('lists the points added and removed', () => {
+    const change = diffSelections(new Set([1, 2]), new Set([2, 3]), 'replace');
+    expect(change).toEqual({operation: 'replace', added: [3], removed: [1]});
+  });
+
+  it('lists nothing for an unchanged selection', () => {
+    const change = diffSelections(new Set([1]), new Set([1]), 'add');
+    expect(change).toEqual({operation: 'add', added: [], removed: []});
+  });
+});
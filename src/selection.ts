@@ -0,0 +1,85 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+/**
+ * How a gesture's points combine with the current selection. 'toggle' flips
+ * the selection of each point, as when clicking a point with a modifier.
+ */
+export type SelectionOperation =
+  | 'replace'
+  | 'add'
+  | 'subtract'
+  | 'intersect'
+  | 'toggle';
+
+/** The gesture that selected points: a click, or a drag of a selector. */
+export type SelectionSource = 'click' | 'rectangle' | 'lasso' | 'brush';
+
+/** The difference a selection operation made to the selection. */
+export interface SelectionChange {
+  operation: SelectionOperation;
+  /** The points newly selected. */
+  added: number[];
+  /** The points no longer selected. */
+  removed: number[];
+}
+
+/** Combines the current selection with a gesture's points into a new set. */
+export function applySelectionOperation(
+  selection: Set<number>,
+  pointIndices: number[],
+  operation: SelectionOperation
+): Set<number> {
+  switch (operation) {
+    case 'replace':
+      return new Set(pointIndices);
+    case 'add':
+      return new Set([...selection, ...pointIndices]);
+    case 'subtract': {
+      const result = new Set(selection);
+      pointIndices.forEach(i => result.delete(i));
+      return result;
+    }
+    case 'intersect': {
+      const gesture = new Set(pointIndices);
+      return new Set([...selection].filter(i => gesture.has(i)));
+    }
+    case 'toggle': {
+      const result = new Set(selection);
+      for (const i of new Set(pointIndices)) {
+        if (result.has(i)) {
+          result.delete(i);
+        } else {
+          result.add(i);
+        }
+      }
+      return result;
+    }
+  }
+}
+
+/** Computes the points added and removed going from one selection to another. */
+export function diffSelections(
+  previous: Set<number>,
+  next: Set<number>,
+  operation: SelectionOperation
+): SelectionChange {
+  return {
+    operation,
+    added: [...next].filter(i => !previous.has(i)),
+    removed: [...previous].filter(i => !next.has(i)),
+  };
+}
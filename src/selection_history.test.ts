@@ -0,0 +1,71 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {SelectionHistory} from './selection_history';
+
+describe('SelectionHistory', () => {
+  it('undoes and redoes selections', () => {
+    const history = new SelectionHistory(10);
+    expect(history.state).toEqual({canUndo: false, canRedo: false});
+    history.push(new Set([1]));
+    expect(history.state).toEqual({canUndo: true, canRedo: false});
+
+    expect(history.undo(new Set([2]))).toEqual([1]);
+    expect(history.state).toEqual({canUndo: false, canRedo: true});
+    expect(history.undo(new Set([1]))).toBeNull();
+
+    expect(history.redo(new Set([1]))).toEqual([2]);
+    expect(history.state).toEqual({canUndo: true, canRedo: false});
+    expect(history.redo(new Set([2]))).toBeNull();
+  });
+
+  it('clears the redo stack on a new selection', () => {
+    const history = new SelectionHistory(10);
+    history.push(new Set([1]));
+    history.undo(new Set([2]));
+    history.push(new Set([1]));
+    expect(history.state.canRedo).toBe(false);
+  });
+
+  it('keeps at most maxDepth selections, dropping the oldest', () => {
+    const history = new SelectionHistory(2);
+    history.push(new Set([1]));
+    history.push(new Set([2]));
+    history.push(new Set([3]));
+    expect(history.undo(new Set([4]))).toEqual([3]);
+    expect(history.undo(new Set([3]))).toEqual([2]);
+    expect(history.undo(new Set([2]))).toBeNull();
+  });
+
+  it('remaps recorded selections, dropping removed points', () => {
+    const history = new SelectionHistory(10);
+    history.push(new Set([0, 1, 2]));
+    history.push(new Set([2]));
+    history.undo(new Set([1, 2]));
+    history.remap(new Int32Array([-1, 0, 1]));
+    expect(history.redo(new Set())).toEqual([0, 1]);
+    expect(history.undo(new Set())).toEqual([]);
+    expect(history.undo(new Set())).toEqual([0, 1]);
+  });
+
+  it('forgets everything on clear', () => {
+    const history = new SelectionHistory(10);
+    history.push(new Set([1]));
+    history.undo(new Set());
+    history.clear();
+    expect(history.state).toEqual({canUndo: false, canRedo: false});
+  });
+});
@@ -0,0 +1,77 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+/** Whether there are selections to go back or forward to. */
+export interface SelectionHistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+/**
+ * Undo and redo stacks of selections, holding at most `maxDepth` selections
+ * to go back to, dropping the oldest.
+ */
+export class SelectionHistory {
+  private past: number[][] = [];
+  private future: number[][] = [];
+
+  constructor(public maxDepth: number) {}
+
+  get state(): SelectionHistoryState {
+    return {canUndo: this.past.length > 0, canRedo: this.future.length > 0};
+  }
+
+  /** Records the selection being replaced, clearing the redo stack. */
+  push(previous: Set<number>) {
+    this.past.push([...previous]);
+    if (this.past.length > this.maxDepth) {
+      this.past.splice(0, this.past.length - this.maxDepth);
+    }
+    this.future = [];
+  }
+
+  /** Returns the selection to go back to, or null if there is none. */
+  undo(current: Set<number>): number[] | null {
+    const previous = this.past.pop();
+    if (!previous) return null;
+    this.future.push([...current]);
+    return previous;
+  }
+
+  /** Returns the selection to go forward to, or null if there is none. */
+  redo(current: Set<number>): number[] | null {
+    const next = this.future.pop();
+    if (!next) return null;
+    this.past.push([...current]);
+    return next;
+  }
+
+  /**
+   * Renumbers the points of every recorded selection, dropping points that
+   * map to a negative index.
+   */
+  remap(remap: Int32Array) {
+    const remapSelection = (selection: number[]) =>
+      selection.map(i => remap[i]).filter(i => i >= 0);
+    this.past = this.past.map(remapSelection);
+    this.future = this.future.map(remapSelection);
+  }
+
+  clear() {
+    this.past = [];
+    this.future = [];
+  }
+}
@@ -0,0 +1,280 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import * as THREE from 'three';
+
+import {Point2D} from './types';
+import {KdTree, ScreenBounds, ScreenProjection} from './spatial_index';
+import {extent, isPointInPolygon} from './util';
+
+/** Packs deterministic pseudo-random 3d positions in [-1, 1). */
+function makePositions(pointCount: number) {
+  const positions = new Float32Array(pointCount * 3);
+  let seed = 1;
+  for (let i = 0; i < positions.length; i++) {
+    seed = (seed * 16807) % 2147483647;
+    positions[i] = (seed / 2147483647) * 2 - 1;
+  }
+  return positions;
+}
+
+/** Whether a packed position is inside an axis-aligned box. */
+function isInside(positions: Float32Array, i: number, box: number[]) {
+  for (let d = 0; d < 3; d++) {
+    const value = positions[i * 3 + d];
+    if (value < box[d] || value > box[d + 3]) return false;
+  }
+  return true;
+}
+
+describe('KdTree', () => {
+  const positions = makePositions(1000);
+  const tree = new KdTree(positions);
+
+  it('visits every point once when no box is rejected', () => {
+    const visits = new Uint8Array(1000);
+    tree.query(
+      () => false,
+      i => visits[i]++
+    );
+    expect(visits.every(count => count === 1)).toBe(true);
+  });
+
+  it('finds the points in a box while skipping most of the tree', () => {
+    const box = [0.2, -0.5, 0, 0.6, 0, 0.4];
+    const found: number[] = [];
+    let visited = 0;
+    tree.query(
+      (bounds, offset) =>
+        [0, 1, 2].some(
+          d =>
+            bounds[offset + d + 3] < box[d] || bounds[offset + d] > box[d + 3]
+        ),
+      i => {
+        visited++;
+        if (isInside(positions, i, box)) found.push(i);
+      }
+    );
+    const expected: number[] = [];
+    for (let i = 0; i < 1000; i++) {
+      if (isInside(positions, i, box)) expected.push(i);
+    }
+    expect(found.sort((a, b) => a - b)).toEqual(expected);
+    expect(visited).toBeLessThan(500);
+  });
+
+  it('handles empty and duplicate positions', () => {
+    const visit = jest.fn();
+    new KdTree(new Float32Array(0)).query(() => false, visit);
+    expect(visit).not.toHaveBeenCalled();
+    new KdTree(new Float32Array(300)).query(() => false, visit);
+    expect(visit).toHaveBeenCalledTimes(100);
+  });
+});
+
+describe('ScreenProjection', () => {
+  const camera = new THREE.PerspectiveCamera(90, 1, 0.1, 100);
+  camera.position.set(0, 0, 2);
+  camera.lookAt(0, 0, 0);
+  camera.updateMatrixWorld();
+  const projection = new ScreenProjection(camera, 200, 100);
+
+  it('projects positions in front of the camera to screen pixels', () => {
+    const out = [0, 0, 0];
+    expect(projection.project(0, 0, 0, out)).toBe(true);
+    expect(out[0]).toBeCloseTo(100);
+    expect(out[1]).toBeCloseTo(50);
+    expect(projection.project(2, 2, 0, out)).toBe(true);
+    expect(out[0]).toBeCloseTo(200);
+    expect(out[1]).toBeCloseTo(0);
+  });
+
+  it('rejects positions behind the camera', () => {
+    const out = [1, 2, 3];
+    expect(projection.project(0, 0, 3, out)).toBe(false);
+    expect(out).toEqual([1, 2, 3]);
+  });
+
+  it('rules out boxes outside the screen bounds', () => {
+    const bounds = {minX: 90, minY: 40, maxX: 110, maxY: 60};
+    const inside = [-0.1, -0.1, -0.1, 0.1, 0.1, 0.1];
+    const aside = [1, 1, -0.1, 1.2, 1.2, 0.1];
+    const behind = [-1, -1, 3, 1, 1, 4];
+    const crossing = [-1, -1, 1, 1, 1, 3];
+    expect(projection.isBoxOutside(inside, 0, bounds)).toBe(false);
+    expect(projection.isBoxOutside(aside, 0, bounds)).toBe(true);
+    expect(projection.isBoxOutside(behind, 0, bounds)).toBe(true);
+    expect(projection.isBoxOutside(crossing, 0, bounds)).toBe(false);
+  });
+});
+
+describe('KdTree.queryScreenBounds', () => {
+  // Looking down at z = 0, where [-2, 2] spans the 200 pixel wide screen.
+  const camera = new THREE.PerspectiveCamera(90, 1, 0.1, 100);
+  camera.position.set(0, 0, 2);
+  camera.lookAt(0, 0, 0);
+  camera.updateMatrixWorld();
+  const projection = new ScreenProjection(camera, 200, 200);
+
+  /** A grid of points on z = 0, and a point behind the camera. */
+  const grid: number[] = [];
+  for (let x = -2; x <= 2; x += 0.25) {
+    for (let y = -2; y <= 2; y += 0.25) grid.push(x, y, 0);
+  }
+  grid.push(0, 0, 3);
+  const positions = new Float32Array(grid);
+  const tree = new KdTree(positions);
+
+  function indexOf(x: number, y: number, z: number) {
+    for (let i = 0; i < grid.length; i += 3) {
+      if (grid[i] === x && grid[i + 1] === y && grid[i + 2] === z) return i / 3;
+    }
+    return -1;
+  }
+
+  /** Projects every point, without the tree, to compare against. */
+  function projectAll(contains: (x: number, y: number) => boolean) {
+    const out = [0, 0, 0];
+    const indices: number[] = [];
+    for (let i = 0; i < positions.length / 3; i++) {
+      const [x, y, z] = positions.subarray(i * 3, i * 3 + 3);
+      if (projection.project(x, y, z, out) && contains(out[0], out[1])) {
+        indices.push(i);
+      }
+    }
+    return indices;
+  }
+
+  /** Hit-tests a lasso the way the scatter plot does. */
+  function queryPolygon(polygon: Point2D[]) {
+    const [minX, maxX] = extent(polygon.map(([x]) => x));
+    const [minY, maxY] = extent(polygon.map(([, y]) => y));
+    const bounds: ScreenBounds = {minX, minY, maxX, maxY};
+    const indices: number[] = [];
+    tree.queryScreenBounds(projection, bounds, (i, x, y) => {
+      if (isPointInPolygon(x, y, polygon)) indices.push(i);
+    });
+    return indices.sort((a, b) => a - b);
+  }
+
+  it('visits the points projecting inside the bounds', () => {
+    const bounds = {minX: 40, minY: 60, maxX: 110, maxY: 90};
+    const visited: number[] = [];
+    tree.queryScreenBounds(projection, bounds, (i, x, y, depth) => {
+      expect(x).toBeGreaterThanOrEqual(40);
+      expect(y).toBeLessThanOrEqual(90);
+      expect(depth).toBeLessThan(1);
+      visited.push(i);
+    });
+    expect(visited.sort((a, b) => a - b)).toEqual(
+      projectAll((x, y) => x >= 40 && x <= 110 && y >= 60 && y <= 90)
+    );
+  });
+
+  it('hit-tests a concave lasso', () => {
+    // An L shape, leaving out the top right of its bounding box.
+    const polygon: Point2D[] = [
+      [20, 20],
+      [80, 20],
+      [80, 120],
+      [180, 120],
+      [180, 180],
+      [20, 180],
+    ];
+    const selected = queryPolygon(polygon);
+    expect(selected).toEqual(
+      projectAll((x, y) => isPointInPolygon(x, y, polygon))
+    );
+    expect(selected.length).toBeGreaterThan(0);
+
+    // Points in the notch, like the screen center, are left out.
+    expect(selected).not.toContain(indexOf(0, 0, 0));
+    expect(selected).toContain(indexOf(-1, -1, 0));
+  });
+
+  it('leaves out points behind the camera', () => {
+    const polygon: Point2D[] = [
+      [-1, -1],
+      [201, -1],
+      [201, 201],
+      [-1, 201],
+    ];
+    const behind = indexOf(0, 0, 3);
+    const selected = queryPolygon(polygon);
+    expect(selected).not.toContain(behind);
+    expect(selected.length).toBe(positions.length / 3 - 1);
+  });
+});
+
+describe('KdTree.findNearestOnScreen', () => {
+  // Looking down at z = 0, where [-2, 2] spans the 200 pixel wide screen.
+  const camera = new THREE.PerspectiveCamera(90, 1, 0.1, 100);
+  camera.position.set(0, 0, 2);
+  camera.lookAt(0, 0, 0);
+  camera.updateMatrixWorld();
+  const projection = new ScreenProjection(camera, 200, 200);
+
+  // Two points at the screen center, one nearer the camera, and one in the
+  // top right corner at (180, 20).
+  const tree = new KdTree(new Float32Array([0, 0, 0, 0, 0, 1, 1.6, 1.6, 0]));
+
+  it('finds the nearest point within the first radius', () => {
+    expect(tree.findNearestOnScreen(projection, 175, 25, 10, 10)).toBe(2);
+  });
+
+  it('grows the radius up to the largest one', () => {
+    expect(tree.findNearestOnScreen(projection, 150, 50, 4, 100)).toBe(2);
+    expect(tree.findNearestOnScreen(projection, 150, 50, 4, 40)).toBeNull();
+  });
+
+  it('prefers the point nearest to the camera at the same distance', () => {
+    expect(tree.findNearestOnScreen(projection, 100, 90, 16, 16)).toBe(1);
+  });
+
+  it('skips points', () => {
+    const isSkipped = (i: number) => i === 1;
+    expect(
+      tree.findNearestOnScreen(projection, 100, 90, 16, 16, isSkipped)
+    ).toBe(0);
+  });
+
+  it('only projects the points near a close match', () => {
+    const positions = makePositions(1000);
+    const manyPoints = new KdTree(positions);
+    const project = jest.spyOn(projection, 'project');
+    const grown = manyPoints.findNearestOnScreen(
+      projection,
+      100,
+      100,
+      4,
+      Infinity
+    );
+    const grownCount = project.mock.calls.length;
+    project.mockClear();
+    const whole = manyPoints.findNearestOnScreen(
+      projection,
+      100,
+      100,
+      300,
+      300
+    );
+    const wholeCount = project.mock.calls.length;
+    project.mockRestore();
+
+    expect(grown).toBe(whole);
+    expect(grownCount).toBeLessThan(wholeCount / 2);
+  });
+});
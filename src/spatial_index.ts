@@ -0,0 +1,324 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import * as THREE from 'three';
+
+/** The most points in a leaf of the k-d tree. */
+const LEAF_SIZE = 16;
+
+/** An axis-aligned rectangle in screen pixels, from the top left corner. */
+export interface ScreenBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/**
+ * A k-d tree over packed 3d positions, splitting each node at the median of
+ * its longest axis. Each node keeps the bounding box of its points, so that
+ * queries can skip whole subtrees.
+ */
+export class KdTree {
+  /** Point indices, ordered so that the points of each node are contiguous. */
+  private order: Uint32Array;
+  private nodeStart: number[] = [];
+  private nodeEnd: number[] = [];
+  /** The index of each node's first child, or -1 for leaves. */
+  private nodeLeft: number[] = [];
+  private nodeRight: number[] = [];
+  /** The [minX, minY, minZ, maxX, maxY, maxZ] bounding box of each node. */
+  private nodeBounds: number[] = [];
+
+  constructor(private positions: Float32Array) {
+    const pointCount = positions.length / 3;
+    this.order = new Uint32Array(pointCount);
+    for (let i = 0; i < pointCount; i++) this.order[i] = i;
+    if (pointCount > 0) this.build(0, pointCount);
+  }
+
+  /**
+   * Visits the points of every node whose bounding box isn't rejected.
+   *
+   * @param isBoxOutside whether a node's box, at `offset` in `bounds` as
+   *     [minX, minY, minZ, maxX, maxY, maxZ], can't contain matching points
+   * @param visit called with the index of each point in a visited leaf
+   */
+  query(
+    isBoxOutside: (bounds: number[], offset: number) => boolean,
+    visit: (index: number) => void
+  ) {
+    if (this.nodeStart.length === 0) return;
+    const stack = [0];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (isBoxOutside(this.nodeBounds, node * 6)) continue;
+      if (this.nodeLeft[node] === -1) {
+        for (let i = this.nodeStart[node]; i < this.nodeEnd[node]; i++) {
+          visit(this.order[i]);
+        }
+      } else {
+        stack.push(this.nodeLeft[node], this.nodeRight[node]);
+      }
+    }
+  }
+
+  /**
+   * Calls back with the index, screen position and depth of every point in
+   * front of the camera that projects inside screen bounds. Only the points in
+   * boxes that aren't outside the bounds are projected, so the cost depends on
+   * the number of points near the bounds rather than in total.
+   */
+  queryScreenBounds(
+    projection: ScreenProjection,
+    bounds: ScreenBounds,
+    visit: (index: number, x: number, y: number, depth: number) => void
+  ) {
+    const {positions} = this;
+    // Reuse the same array to avoid unnecessary allocations.
+    const screen = [0, 0, 0];
+    this.query(
+      (box, offset) => projection.isBoxOutside(box, offset, bounds),
+      i => {
+        const start = i * 3;
+        if (
+          !projection.project(
+            positions[start],
+            positions[start + 1],
+            positions[start + 2],
+            screen
+          )
+        ) {
+          return;
+        }
+        const [x, y, depth] = screen;
+        if (
+          x >= bounds.minX &&
+          x <= bounds.maxX &&
+          y >= bounds.minY &&
+          y <= bounds.maxY
+        ) {
+          visit(i, x, y, depth);
+        }
+      }
+    );
+  }
+
+  /**
+   * Returns the index of the point whose screen position is nearest to a
+   * position, or null when none is within `maxRadius` of it. Searches growing
+   * circles from `radius`, so that a search over a large distance only visits
+   * the points near the position when there are any. Points at the same
+   * distance are told apart by their depth, preferring the nearest one.
+   *
+   * @param isSkipped whether a point can't be found, e.g. for hidden points
+   */
+  findNearestOnScreen(
+    projection: ScreenProjection,
+    x: number,
+    y: number,
+    radius: number,
+    maxRadius: number,
+    isSkipped?: (index: number) => boolean
+  ): number | null {
+    radius = Math.min(radius, maxRadius);
+    while (true) {
+      const nearest = this.findNearestWithin(
+        projection,
+        x,
+        y,
+        radius,
+        isSkipped
+      );
+      if (nearest != null || radius >= maxRadius) return nearest;
+      radius = Math.min(radius * 2, maxRadius);
+    }
+  }
+
+  private findNearestWithin(
+    projection: ScreenProjection,
+    cx: number,
+    cy: number,
+    radius: number,
+    isSkipped?: (index: number) => boolean
+  ) {
+    let nearest: number | null = null;
+    let nearestDistance = radius * radius;
+    let nearestDepth = Infinity;
+    const bounds = {
+      minX: cx - radius,
+      minY: cy - radius,
+      maxX: cx + radius,
+      maxY: cy + radius,
+    };
+    this.queryScreenBounds(projection, bounds, (i, x, y, depth) => {
+      if (isSkipped && isSkipped(i)) return;
+      const distance = (x - cx) * (x - cx) + (y - cy) * (y - cy);
+      if (
+        distance < nearestDistance ||
+        (distance === nearestDistance && depth < nearestDepth)
+      ) {
+        nearest = i;
+        nearestDistance = distance;
+        nearestDepth = depth;
+      }
+    });
+    return nearest;
+  }
+
+  /** Builds the node for the points in [start, end) of the order. */
+  private build(start: number, end: number): number {
+    const node = this.nodeStart.length;
+    this.nodeStart.push(start);
+    this.nodeEnd.push(end);
+    this.nodeLeft.push(-1);
+    this.nodeRight.push(-1);
+
+    const {order, positions} = this;
+    const min = [Infinity, Infinity, Infinity];
+    const max = [-Infinity, -Infinity, -Infinity];
+    for (let i = start; i < end; i++) {
+      const p = order[i] * 3;
+      for (let axis = 0; axis < 3; axis++) {
+        const value = positions[p + axis];
+        if (value < min[axis]) min[axis] = value;
+        if (value > max[axis]) max[axis] = value;
+      }
+    }
+    this.nodeBounds.push(...min, ...max);
+
+    let axis = 0;
+    for (let a = 1; a < 3; a++) {
+      if (max[a] - min[a] > max[axis] - min[axis]) axis = a;
+    }
+    // Coincident points can't be split, so they stay in one leaf.
+    if (end - start <= LEAF_SIZE || !(max[axis] > min[axis])) return node;
+
+    const mid = (start + end) >> 1;
+    this.select(start, end - 1, mid, axis);
+    this.nodeLeft[node] = this.build(start, mid);
+    this.nodeRight[node] = this.build(mid, end);
+    return node;
+  }
+
+  /**
+   * Partially sorts the order in [left, right] along an axis, so that the
+   * kth point has the kth value and the points before it don't exceed it.
+   */
+  private select(left: number, right: number, k: number, axis: number) {
+    const {order, positions} = this;
+    const valueOf = (i: number) => positions[order[i] * 3 + axis];
+    while (left < right) {
+      const pivot = valueOf((left + right) >> 1);
+      let i = left;
+      let j = right;
+      while (i <= j) {
+        while (valueOf(i) < pivot) i++;
+        while (valueOf(j) > pivot) j--;
+        if (i <= j) {
+          const swap = order[i];
+          order[i] = order[j];
+          order[j] = swap;
+          i++;
+          j--;
+        }
+      }
+      if (k <= j) {
+        right = j;
+      } else if (k >= i) {
+        left = i;
+      } else {
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Projects world positions into screen pixels through a camera, the way
+ * `Vector3.project` does, but telling apart positions behind the camera.
+ */
+export class ScreenProjection {
+  private matrix: number[];
+
+  /**
+   * @param camera a camera whose world matrix is up to date
+   * @param width the width of the screen, in pixels
+   * @param height the height of the screen, in pixels
+   */
+  constructor(
+    camera: THREE.Camera,
+    private width: number,
+    private height: number
+  ) {
+    this.matrix = new THREE.Matrix4()
+      .multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse)
+      .toArray();
+  }
+
+  /**
+   * Writes the screen position of a world position into `out`, followed by
+   * its depth in normalized device coordinates, which increases away from the
+   * camera. Returns false, leaving `out` unchanged, if it is behind the camera.
+   */
+  project(x: number, y: number, z: number, out: number[]) {
+    const e = this.matrix;
+    const w = e[3] * x + e[7] * y + e[11] * z + e[15];
+    if (!(w > 0)) return false;
+    const ndcX = (e[0] * x + e[4] * y + e[8] * z + e[12]) / w;
+    const ndcY = (e[1] * x + e[5] * y + e[9] * z + e[13]) / w;
+    out[0] = ((ndcX + 1) * this.width) / 2;
+    out[1] = ((1 - ndcY) * this.height) / 2;
+    out[2] = (e[2] * x + e[6] * y + e[10] * z + e[14]) / w;
+    return true;
+  }
+
+  /**
+   * Whether a world-space box is certainly outside the frustum through screen
+   * bounds. Boxes crossing the camera plane can't be ruled out.
+   *
+   * @param box a [minX, minY, minZ, maxX, maxY, maxZ] box at `offset`
+   */
+  isBoxOutside(box: number[], offset: number, bounds: ScreenBounds) {
+    const screen = [0, 0, 0];
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    let behind = 0;
+    for (let corner = 0; corner < 8; corner++) {
+      const x = box[offset + (corner & 1 ? 3 : 0)];
+      const y = box[offset + (corner & 2 ? 4 : 1)];
+      const z = box[offset + (corner & 4 ? 5 : 2)];
+      if (!this.project(x, y, z, screen)) {
+        behind++;
+        continue;
+      }
+      minX = Math.min(minX, screen[0]);
+      minY = Math.min(minY, screen[1]);
+      maxX = Math.max(maxX, screen[0]);
+      maxY = Math.max(maxY, screen[1]);
+    }
+    if (behind === 8) return true;
+    if (behind > 0) return false;
+    return (
+      maxX < bounds.minX ||
+      minX > bounds.maxX ||
+      maxY < bounds.minY ||
+      minY > bounds.maxY
+    );
+  }
+}
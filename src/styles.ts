@@ -39,6 +39,32 @@ export interface Label3DStyles {
   colorHover: Color;
 }
 
+export interface LegendStyles {
+  /** The corner of the container the legend is placed in. */
+  position: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+  backgroundColor: Color;
+  color: Color;
+  fontSize: number;
+  padding: number;
+  swatchSize: number;
+  rampWidth: number;
+  /** The opacity of hidden categories' entries. */
+  hiddenOpacity: number;
+  /** Categories beyond this many are summarized rather than listed. */
+  maxCategories: number;
+}
+
+export interface SearchStyles {
+  /** The color of matching points and their labels. */
+  color: Color;
+  /** The corner of the container the search box is placed in. */
+  position: 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+  backgroundColor: Color;
+  fontSize: number;
+  padding: number;
+  inputWidth: number;
+}
+
 export interface PointStyles {
   colorUnselected: Color;
   colorNoSelection: Color;
@@ -84,6 +110,8 @@ export interface SelectStyles {
   stroke: Color;
   strokeWidth: number;
   strokeDashArray: string;
+  /** The radius of the brush in brush mode, in CSS pixels. */
+  brushRadius: number;
 }
 
 export interface SpritesStyles {
@@ -99,8 +127,10 @@ export interface Styles {
   fog: FogStyles;
   label: LabelStyles;
   label3D: Label3DStyles;
+  legend: LegendStyles;
   point: PointStyles;
   polyline: PolylineStyles;
+  search: SearchStyles;
   select: SelectStyles;
   sprites: SpritesStyles;
 }
@@ -111,8 +141,10 @@ export interface UserStyles {
   fog?: Partial<FogStyles>;
   label?: Partial<LabelStyles>;
   label3D?: Partial<Label3DStyles>;
+  legend?: Partial<LegendStyles>;
   point?: Partial<PointStyles>;
   polyline?: Partial<PolylineStyles>;
+  search?: Partial<SearchStyles>;
   select?: Partial<SelectStyles>;
   sprites?: Partial<SpritesStyles>;
 }
@@ -150,6 +182,18 @@ const makeDefaultStyles = () => {
       colorHover: 'yellow',
     },
 
+    legend: {
+      position: 'top-right',
+      backgroundColor: 'rgba(255, 255, 255, 0.85)',
+      color: '#333333',
+      fontSize: 11,
+      padding: 8,
+      swatchSize: 10,
+      rampWidth: 120,
+      hiddenOpacity: 0.35,
+      maxCategories: 20,
+    },
+
     point: {
       colorUnselected: 'rgba(227, 227, 227, 0.7)',
       colorNoSelection: 'rgba(117, 117, 217, 0.7)',
@@ -172,12 +216,22 @@ const makeDefaultStyles = () => {
       deselectedOpacity: 0.05,
     },
 
+    search: {
+      color: '#f28e2c',
+      position: 'top-left',
+      backgroundColor: 'rgba(255, 255, 255, 0.85)',
+      fontSize: 11,
+      padding: 8,
+      inputWidth: 160,
+    },
+
     select: {
       fill: '#dddddd',
       fillOpacity: 0.2,
       stroke: '#aaaaaa',
       strokeWidth: 2,
       strokeDashArray: '10 5',
+      brushRadius: 20,
     },
 
     sprites: {
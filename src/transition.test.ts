@@ -0,0 +1,93 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {
+  EasingName,
+  easings,
+  getEasingFunction,
+  interpolatePositions,
+} from './transition';
+
+describe('easings', () => {
+  const names = Object.keys(easings) as EasingName[];
+
+  it('start at 0 and end at 1', () => {
+    for (const name of names) {
+      expect(easings[name](0)).toBeCloseTo(0);
+      expect(easings[name](1)).toBeCloseTo(1);
+    }
+  });
+
+  it('never move backwards', () => {
+    for (const name of names) {
+      let previous = 0;
+      for (let t = 0.05; t <= 1; t += 0.05) {
+        const progress = easings[name](t);
+        expect(progress).toBeGreaterThanOrEqual(previous);
+        previous = progress;
+      }
+    }
+  });
+
+  it('ease in and out at the expected rates', () => {
+    expect(easings.linear(0.5)).toBe(0.5);
+    expect(easings.quadInOut(0.5)).toBeCloseTo(0.5);
+    expect(easings.cubicInOut(0.5)).toBeCloseTo(0.5);
+    expect(easings.cubicInOut(0.25)).toBeCloseTo(0.0625);
+    expect(easings.cubicOut(0.5)).toBeCloseTo(0.875);
+  });
+});
+
+describe('getEasingFunction', () => {
+  it('defaults to cubicInOut', () => {
+    expect(getEasingFunction()).toBe(easings.cubicInOut);
+  });
+
+  it('looks up easings by name', () => {
+    expect(getEasingFunction('linear')).toBe(easings.linear);
+  });
+
+  it('returns easing functions as is', () => {
+    const easing = (t: number) => t * t;
+    expect(getEasingFunction(easing)).toBe(easing);
+  });
+});
+
+describe('interpolatePositions', () => {
+  const from = new Float32Array([0, 0, 10, -4]);
+  const to = new Float32Array([2, 4, 10, 4]);
+
+  it('returns the start and end positions at 0 and 1', () => {
+    const out = new Float32Array(4);
+    interpolatePositions(from, to, 0, out);
+    expect(out).toEqual(from);
+    interpolatePositions(from, to, 1, out);
+    expect(out).toEqual(to);
+  });
+
+  it('interpolates linearly into the output array', () => {
+    const out = new Float32Array(4);
+    const result = interpolatePositions(from, to, 0.25, out);
+    expect(result).toBe(out);
+    expect(Array.from(out)).toEqual([0.5, 1, 10, -2]);
+  });
+
+  it('overshoots with progress outside [0, 1]', () => {
+    const out = new Float32Array(4);
+    interpolatePositions(from, to, 1.5, out);
+    expect(Array.from(out)).toEqual([3, 6, 10, 8]);
+  });
+});
@@ -0,0 +1,58 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+/** Maps the elapsed fraction of a transition (0 to 1) to its progress. */
+export type EasingFunction = (t: number) => number;
+
+export type EasingName = 'linear' | 'quadInOut' | 'cubicInOut' | 'cubicOut';
+
+export const easings: {[name in EasingName]: EasingFunction} = {
+  linear: t => t,
+  quadInOut: t => (t < 0.5 ? 2 * t * t : 1 - Math.pow(-2 * t + 2, 2) / 2),
+  cubicInOut: t => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+  cubicOut: t => 1 - Math.pow(1 - t, 3),
+};
+
+/** Describes how points animate from their old to their new positions. */
+export interface TransitionParams {
+  /** The duration of the transition, in milliseconds. */
+  duration: number;
+  /** The easing to apply, either by name or as a function. */
+  easing?: EasingName | EasingFunction;
+}
+
+export function getEasingFunction(
+  easing: EasingName | EasingFunction = 'cubicInOut'
+): EasingFunction {
+  return typeof easing === 'function' ? easing : easings[easing];
+}
+
+/**
+ * Writes the positions interpolated between `from` and `to` at `progress`
+ * into `out`. All arrays must have the same length.
+ */
+export function interpolatePositions(
+  from: Float32Array,
+  to: Float32Array,
+  progress: number,
+  out: Float32Array
+) {
+  for (let i = 0; i < to.length; i++) {
+    out[i] = from[i] + (to[i] - from[i]) * progress;
+  }
+  return out;
+}
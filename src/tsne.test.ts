@@ -0,0 +1,149 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {Dataset, NonFiniteCoordinatesError} from './data';
+import {ScatterGL} from './scatter_gl';
+import {TSNELayout} from './tsne';
+
+/** Stands in for a ScatterGL instance, recording the rendered datasets. */
+function makeScatterGL() {
+  const rendered: Dataset[] = [];
+  const scatterGL = {
+    render: (dataset: Dataset) => rendered.push(dataset),
+    updateDataset: (dataset: Dataset) => rendered.push(dataset),
+  };
+  return {scatterGL: (scatterGL as unknown) as ScatterGL, rendered};
+}
+
+function makeVectors(n: number) {
+  const vectors: number[][] = [];
+  for (let i = 0; i < n; i++) {
+    vectors.push([i % 5, Math.floor(i / 5), Math.sin(i)]);
+  }
+  return vectors;
+}
+
+/** Waits for the main thread fallback's messages to meet a condition. */
+function waitFor(condition: () => boolean) {
+  return new Promise<void>((resolve, reject) => {
+    const start = Date.now();
+    const poll = () => {
+      if (condition()) {
+        resolve();
+      } else if (Date.now() - start > 2000) {
+        reject(new Error('Timed out'));
+      } else {
+        setTimeout(poll, 5);
+      }
+    };
+    poll();
+  });
+}
+
+describe('TSNELayout', () => {
+  it('renders the initial layout and steps it', async () => {
+    const {scatterGL, rendered} = makeScatterGL();
+    const layout = new TSNELayout(scatterGL, makeVectors(30), {
+      perplexity: 5,
+    });
+    await waitFor(() => rendered.length > 0);
+    expect(rendered[0].pointCount).toBe(30);
+    expect(rendered[0].dimensions).toBe(2);
+
+    layout.step(3);
+    await waitFor(() => layout.iteration > 0);
+    expect(layout.iteration).toBe(3);
+    layout.dispose();
+  });
+
+  it('stops and reports an error when the layout diverges', async () => {
+    const {scatterGL, rendered} = makeScatterGL();
+    const errors: Error[] = [];
+    const layout = new TSNELayout(scatterGL, makeVectors(30), {
+      perplexity: 5,
+      learningRate: Infinity,
+      onError: error => errors.push(error),
+    });
+    await waitFor(() => rendered.length > 0);
+    layout.step();
+    await waitFor(() => errors.length > 0);
+    expect(errors.length).toBe(1);
+    expect(errors[0]).toBeInstanceOf(NonFiniteCoordinatesError);
+    expect(rendered.length).toBe(1);
+  });
+
+  it('refuses large layouts on the main thread', () => {
+    const {scatterGL} = makeScatterGL();
+    expect(() => new TSNELayout(scatterGL, makeVectors(3000))).toThrow();
+  });
+
+  describe('with a worker that fails to start', () => {
+    const globals = (globalThis as unknown) as {
+      Worker?: unknown;
+      Blob?: unknown;
+    };
+    const {Worker, Blob} = globals;
+
+    /** Fails asynchronously, as a worker blocked by a CSP does. */
+    class FailingWorker {
+      onmessage: unknown = null;
+      onerror: ((event: Partial<ErrorEvent>) => void) | null = null;
+      constructor() {
+        setTimeout(() => {
+          if (this.onerror) this.onerror({message: 'Blocked'});
+        }, 0);
+      }
+      postMessage() {}
+      terminate() {}
+    }
+
+    beforeEach(() => {
+      globals.Worker = FailingWorker;
+      globals.Blob = class {};
+      jest.spyOn(URL, 'createObjectURL').mockReturnValue('blob:tsne');
+      jest.spyOn(URL, 'revokeObjectURL').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      globals.Worker = Worker;
+      globals.Blob = Blob;
+      jest.restoreAllMocks();
+    });
+
+    it('falls back to the main thread, replaying its requests', async () => {
+      const {scatterGL, rendered} = makeScatterGL();
+      const layout = new TSNELayout(scatterGL, makeVectors(30), {
+        perplexity: 5,
+      });
+      layout.step(2);
+      await waitFor(() => layout.iteration > 0);
+      expect(rendered[0].pointCount).toBe(30);
+      expect(layout.iteration).toBe(2);
+      layout.dispose();
+    });
+
+    it('reports an error for layouts too large for the main thread', async () => {
+      const {scatterGL, rendered} = makeScatterGL();
+      const errors: Error[] = [];
+      new TSNELayout(scatterGL, makeVectors(3000), {
+        onError: error => errors.push(error),
+      });
+      await waitFor(() => errors.length > 0);
+      expect(errors[0].message).toMatch(/freeze the page/);
+      expect(rendered.length).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,799 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+
+import {
+  Dataset,
+  MetadataColumns,
+  NonFiniteCoordinatesError,
+  PointMetadata,
+  findNonFinite,
+} from './data';
+import {ScatterGL} from './scatter_gl';
+
+export interface TSNEParams {
+  /** The dimensionality of the input vectors, required for packed vectors. */
+  dimensions?: number;
+  /** The dimensionality of the layout, either 2 or 3. */
+  outputDimensions?: number;
+  perplexity?: number;
+  learningRate?: number;
+  /** Seed for the initial random layout, so that runs are reproducible. */
+  seed?: number;
+  /** The minimum time between plot updates, in milliseconds. */
+  updateInterval?: number;
+  /** Metadata for the points, passed on to the rendered dataset. */
+  metadata?: PointMetadata[] | MetadataColumns;
+  /** Called with the intermediate layout every time the plot is updated. */
+  onUpdate?: (positions: Float32Array, iteration: number) => void;
+  /**
+   * Called when the layout stops because it diverged, with a
+   * `NonFiniteCoordinatesError` listing the points that left the plane, or
+   * because its worker failed.
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * The most points laid out when workers are unavailable. The exact neighbor
+ * search takes time quadratic in the number of points, and would freeze the
+ * page for larger datasets on the main thread.
+ */
+const MAX_MAIN_THREAD_POINTS = 2000;
+
+const DEFAULT_TSNE_PARAMS = {
+  outputDimensions: 2,
+  perplexity: 30,
+  learningRate: 10,
+  seed: 42,
+  updateInterval: 100,
+};
+
+/** Starts the optimizer on a new set of vectors. */
+interface InitMessage {
+  type: 'init';
+  vectors: Float32Array;
+  dimensions: number;
+  outputDimensions: number;
+  perplexity: number;
+  learningRate: number;
+  seed: number;
+  updateInterval: number;
+}
+
+/** Runs the optimizer continuously. */
+interface ResumeMessage {
+  type: 'resume';
+}
+
+/** Stops running the optimizer, which replies with its current positions. */
+interface PauseMessage {
+  type: 'pause';
+}
+
+/** Advances the optimizer, which replies with its new positions. */
+interface StepMessage {
+  type: 'step';
+  steps: number;
+}
+
+interface SetParamsMessage {
+  type: 'setParams';
+  perplexity?: number;
+  learningRate?: number;
+}
+
+/** A message from the layout to the optimizer. */
+type LayoutRequest =
+  | InitMessage
+  | ResumeMessage
+  | PauseMessage
+  | StepMessage
+  | SetParamsMessage;
+
+/** The optimizer's current positions, posted back to the layout. */
+interface PositionsMessage {
+  type: 'update';
+  positions: Float32Array;
+  iteration: number;
+}
+
+/** The messaging surface shared by a Worker and the main thread fallback. */
+interface LayoutEndpoint {
+  onmessage: ((event: MessageEvent<PositionsMessage>) => void) | null;
+  onerror?: ((event: ErrorEvent) => void) | null;
+  postMessage(message: LayoutRequest): void;
+  terminate?: () => void;
+}
+
+/** The global scope of the worker, as used by the optimizer. */
+interface WorkerScope {
+  onmessage: ((event: {data: LayoutRequest}) => void) | null;
+  postMessage(message: PositionsMessage, transfer: Transferable[]): void;
+}
+
+/**
+ * Runs t-SNE on high-dimensional vectors in a Web Worker, streaming the
+ * intermediate layout into a ScatterGL instance as it converges. The layout
+ * starts paused; call `resume` to run it continuously or `step` to advance
+ * it manually.
+ */
+export class TSNELayout {
+  private endpoint: LayoutEndpoint;
+  private workerUrl: string | null = null;
+  private dataset?: Dataset;
+  private params: TSNEParams & typeof DEFAULT_TSNE_PARAMS;
+  private running = false;
+  private pointCount: number;
+  /**
+   * The requests posted before the worker first replied, replayed on the main
+   * thread if the worker fails to start.
+   */
+  private startRequests: LayoutRequest[] | null = [];
+
+  /** The number of iterations the layout has run for. */
+  iteration = 0;
+
+  /**
+   * @param scatterGL the ScatterGL instance to render the layout into
+   * @param vectors the data as an array of number arrays, or as a packed
+   *     Float32Array of values with `params.dimensions` values per vector
+   * @param params the t-SNE parameters
+   */
+  constructor(
+    private scatterGL: ScatterGL,
+    vectors: number[][] | Float32Array,
+    params: TSNEParams = {}
+  ) {
+    this.params = {...DEFAULT_TSNE_PARAMS, ...params};
+    const {outputDimensions, perplexity, learningRate, seed} = this.params;
+    if (!(outputDimensions === 2 || outputDimensions === 3)) {
+      throw new RangeError('outputDimensions must be 2 or 3');
+    }
+
+    let dimensions: number;
+    let packed: Float32Array;
+    if (vectors instanceof Float32Array) {
+      if (params.dimensions === undefined) {
+        throw new Error('dimensions are required for packed vectors');
+      }
+      dimensions = params.dimensions;
+      packed = vectors;
+    } else {
+      dimensions = vectors[0].length;
+      packed = new Float32Array(vectors.length * dimensions);
+      vectors.forEach((vector, i) => packed.set(vector, i * dimensions));
+    }
+
+    this.pointCount = packed.length / dimensions;
+    this.endpoint = this.createEndpoint();
+    this.post({
+      type: 'init',
+      vectors: packed,
+      dimensions,
+      outputDimensions,
+      perplexity,
+      learningRate,
+      seed,
+      updateInterval: this.params.updateInterval,
+    });
+  }
+
+  /** Runs the layout continuously until paused. */
+  resume() {
+    this.running = true;
+    this.post({type: 'resume'});
+  }
+
+  /** Stops running the layout, keeping its current state. */
+  pause() {
+    this.running = false;
+    this.post({type: 'pause'});
+  }
+
+  /** Advances a paused layout by a number of iterations. */
+  step(steps = 1) {
+    this.post({type: 'step', steps});
+  }
+
+  isRunning() {
+    return this.running;
+  }
+
+  /** Changes the perplexity, recomputing the neighborhood probabilities. */
+  setPerplexity(perplexity: number) {
+    this.params.perplexity = perplexity;
+    this.post({type: 'setParams', perplexity});
+  }
+
+  setLearningRate(learningRate: number) {
+    this.params.learningRate = learningRate;
+    this.post({type: 'setParams', learningRate});
+  }
+
+  /** Stops the layout and releases the worker. */
+  dispose() {
+    this.running = false;
+    this.endpoint.onmessage = null;
+    this.endpoint.onerror = null;
+    if (this.endpoint.terminate) this.endpoint.terminate();
+    if (this.workerUrl) URL.revokeObjectURL(this.workerUrl);
+    this.workerUrl = null;
+  }
+
+  private post(message: LayoutRequest) {
+    if (this.startRequests) this.startRequests.push(message);
+    this.endpoint.postMessage(message);
+  }
+
+  private onMessage(message: PositionsMessage) {
+    if (message.type !== 'update') return;
+    this.startRequests = null;
+    const {positions} = message;
+    const {outputDimensions, metadata, onUpdate, onError} = this.params;
+
+    // A diverging layout can't be shown, so stop it rather than letting the
+    // dataset validation throw from inside the message handler.
+    const nonFinite = findNonFinite(positions, outputDimensions);
+    if (nonFinite.length > 0) {
+      this.dispose();
+      if (onError) onError(new NonFiniteCoordinatesError(nonFinite));
+      return;
+    }
+
+    this.iteration = message.iteration;
+    if (this.dataset === undefined) {
+      this.dataset = Dataset.fromTypedArray(
+        positions,
+        outputDimensions,
+        metadata
+      );
+      this.scatterGL.render(this.dataset);
+    } else {
+      this.dataset.positions = positions;
+      this.scatterGL.updateDataset(this.dataset);
+    }
+    if (onUpdate) onUpdate(positions, this.iteration);
+  }
+
+  /**
+   * Starts the t-SNE worker from a Blob URL. When workers are unavailable
+   * (or blocked, e.g. by a content security policy), the same code runs on
+   * the main thread instead, for up to `MAX_MAIN_THREAD_POINTS` points.
+   */
+  private createEndpoint(): LayoutEndpoint {
+    const source = `(${tsneWorkerScope.toString()})(self);`;
+    let endpoint: LayoutEndpoint;
+    try {
+      const blob = new Blob([source], {type: 'application/javascript'});
+      this.workerUrl = URL.createObjectURL(blob);
+      endpoint = new Worker(this.workerUrl);
+    } catch (e) {
+      this.checkMainThreadPointCount();
+      endpoint = createMainThreadEndpoint();
+    }
+    endpoint.onmessage = event => this.onMessage(event.data);
+    endpoint.onerror = event => this.onWorkerError(event);
+    return endpoint;
+  }
+
+  /**
+   * Handles a worker that failed, usually asynchronously when it is blocked
+   * or its script fails to load. Before the first reply, the layout restarts
+   * on the main thread if it is small enough; otherwise it stops.
+   */
+  private onWorkerError(event: ErrorEvent) {
+    if (event.preventDefault) event.preventDefault();
+    const {running, startRequests} = this;
+    const {onError} = this.params;
+    this.dispose();
+    let error = new Error(`The t-SNE worker failed: ${event.message}`);
+    if (startRequests) {
+      try {
+        this.checkMainThreadPointCount();
+        this.endpoint = createMainThreadEndpoint();
+        this.endpoint.onmessage = reply => this.onMessage(reply.data);
+        this.running = running;
+        startRequests.forEach(request => this.endpoint.postMessage(request));
+        return;
+      } catch (e) {
+        error = e as Error;
+      }
+    }
+    if (onError) onError(error);
+  }
+
+  private checkMainThreadPointCount() {
+    if (this.pointCount > MAX_MAIN_THREAD_POINTS) {
+      throw new Error(
+        'Web Workers are unavailable, and a t-SNE layout of more than ' +
+          `${MAX_MAIN_THREAD_POINTS} points would freeze the page`
+      );
+    }
+  }
+}
+
+/** Runs the worker scope on the main thread, messaging asynchronously. */
+function createMainThreadEndpoint(): LayoutEndpoint {
+  const endpoint: LayoutEndpoint = {
+    onmessage: null,
+    postMessage: data => {
+      setTimeout(() => scope.onmessage && scope.onmessage({data}), 0);
+    },
+    terminate: () => {
+      if (scope.onmessage) scope.onmessage({data: {type: 'pause'}});
+      scope.onmessage = null;
+    },
+  };
+  const scope: WorkerScope = {
+    onmessage: null,
+    postMessage: data => {
+      setTimeout(() => {
+        if (endpoint.onmessage) {
+          endpoint.onmessage({data} as MessageEvent<PositionsMessage>);
+        }
+      }, 0);
+    },
+  };
+  tsneWorkerScope(scope);
+  return endpoint;
+}
+
+/**
+ * The t-SNE optimizer, using sparse neighborhood probabilities and
+ * Barnes-Hut approximated repulsion. This function is serialized into the
+ * worker, so it must not reference anything outside of its own body, nor
+ * use syntax that compiles to TypeScript helpers (spreads, for-of loops or
+ * array destructuring).
+ */
+function tsneWorkerScope(scope: WorkerScope) {
+  const EARLY_EXAGGERATION = 12;
+  const EARLY_EXAGGERATION_ITERATIONS = 250;
+  const INITIAL_MOMENTUM = 0.5;
+  const FINAL_MOMENTUM = 0.8;
+  const MIN_GAIN = 0.01;
+  const THETA = 0.5;
+  const MAX_TREE_DEPTH = 32;
+  const PERPLEXITY_TOLERANCE = 1e-5;
+  const PERPLEXITY_MAX_STEPS = 200;
+  const FRAME_BUDGET_MS = 16;
+
+  let vectors = new Float32Array(0);
+  let inputDimensions = 0;
+  let dim = 2;
+  let n = 0;
+  let perplexity = 30;
+  let learningRate = 10;
+  let updateInterval = 100;
+
+  // The k nearest neighbors of each point, with squared distances.
+  let k = 0;
+  let neighbors = new Int32Array(0);
+  let neighborDistances = new Float64Array(0);
+
+  // The symmetric joint probabilities, in compressed sparse row format.
+  let rowStarts = new Int32Array(0);
+  let columns = new Int32Array(0);
+  let probabilities = new Float64Array(0);
+
+  let Y = new Float64Array(0);
+  let gains = new Float64Array(0);
+  let velocity = new Float64Array(0);
+  let gradient = new Float64Array(0);
+  let iteration = 0;
+  let running = false;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  let lastUpdate = 0;
+
+  // Barnes-Hut tree nodes, stored as flat arrays.
+  let nodeCenter: number[] = [];
+  let nodeHalfWidth: number[] = [];
+  let nodeMass: number[] = [];
+  let nodeCenterOfMass: number[] = [];
+  let nodeFirstChild: number[] = [];
+  let nodePoint: number[] = [];
+
+  function makeRandom(seed: number) {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+  }
+
+  /**
+   * Finds the exact nearest neighbors of every point, in time quadratic in the
+   * number of points.
+   */
+  function computeNeighbors() {
+    k = Math.min(n - 1, Math.floor(3 * perplexity));
+    neighbors = new Int32Array(n * k);
+    neighborDistances = new Float64Array(n * k);
+    const distances = new Float64Array(k);
+    const indices = new Int32Array(k);
+    for (let i = 0; i < n; i++) {
+      let count = 0;
+      for (let j = 0; j < n; j++) {
+        if (i === j) continue;
+        let dist = 0;
+        for (let d = 0; d < inputDimensions; d++) {
+          const diff =
+            vectors[i * inputDimensions + d] - vectors[j * inputDimensions + d];
+          dist += diff * diff;
+        }
+        if (count === k && dist >= distances[k - 1]) continue;
+        // Insert into the sorted list of nearest neighbors.
+        let pos = count < k ? count++ : k - 1;
+        while (pos > 0 && distances[pos - 1] > dist) {
+          distances[pos] = distances[pos - 1];
+          indices[pos] = indices[pos - 1];
+          pos--;
+        }
+        distances[pos] = dist;
+        indices[pos] = j;
+      }
+      neighbors.set(indices, i * k);
+      neighborDistances.set(distances, i * k);
+    }
+  }
+
+  /**
+   * Computes the conditional probabilities for each point's neighbors with a
+   * binary search for the bandwidth matching the perplexity, and symmetrizes
+   * them into the joint probabilities.
+   */
+  function computeProbabilities() {
+    const kPerplexity = Math.min(n - 1, Math.floor(3 * perplexity));
+    if (kPerplexity > k) computeNeighbors();
+
+    const targetEntropy = Math.log(perplexity);
+    const conditional = new Float64Array(n * k);
+    for (let i = 0; i < n; i++) {
+      let beta = 1;
+      let betaMin = -Infinity;
+      let betaMax = Infinity;
+      for (let step = 0; step < PERPLEXITY_MAX_STEPS; step++) {
+        let sum = 0;
+        let weightedDistance = 0;
+        for (let m = 0; m < k; m++) {
+          const p = Math.exp(-beta * neighborDistances[i * k + m]);
+          conditional[i * k + m] = p;
+          sum += p;
+          weightedDistance += p * neighborDistances[i * k + m];
+        }
+        sum = sum || Number.MIN_VALUE;
+        const entropy = Math.log(sum) + (beta * weightedDistance) / sum;
+        for (let m = 0; m < k; m++) {
+          conditional[i * k + m] /= sum;
+        }
+        const difference = entropy - targetEntropy;
+        if (Math.abs(difference) < PERPLEXITY_TOLERANCE) break;
+        if (difference > 0) {
+          betaMin = beta;
+          beta = betaMax === Infinity ? beta * 2 : (beta + betaMax) / 2;
+        } else {
+          betaMax = beta;
+          beta = betaMin === -Infinity ? beta / 2 : (beta + betaMin) / 2;
+        }
+      }
+    }
+
+    // Symmetrize: P_ij = (p_j|i + p_i|j) / 2n.
+    const joint = new Map<number, number>();
+    for (let i = 0; i < n; i++) {
+      for (let m = 0; m < k; m++) {
+        const j = neighbors[i * k + m];
+        const p = conditional[i * k + m];
+        const keyIJ = i * n + j;
+        const keyJI = j * n + i;
+        joint.set(keyIJ, (joint.get(keyIJ) || 0) + p);
+        joint.set(keyJI, (joint.get(keyJI) || 0) + p);
+      }
+    }
+    const rowCounts = new Int32Array(n);
+    joint.forEach((_, key) => {
+      rowCounts[Math.floor(key / n)]++;
+    });
+    rowStarts = new Int32Array(n + 1);
+    for (let i = 0; i < n; i++) {
+      rowStarts[i + 1] = rowStarts[i] + rowCounts[i];
+    }
+    columns = new Int32Array(joint.size);
+    probabilities = new Float64Array(joint.size);
+    const fill = rowStarts.slice(0, n);
+    joint.forEach((p, key) => {
+      const i = Math.floor(key / n);
+      const index = fill[i]++;
+      columns[index] = key - i * n;
+      probabilities[index] = p / (2 * n);
+    });
+  }
+
+  function addNode(center: number[], halfWidth: number) {
+    const node = nodeHalfWidth.length;
+    for (let d = 0; d < dim; d++) {
+      nodeCenter.push(center[d]);
+      nodeCenterOfMass.push(0);
+    }
+    nodeHalfWidth.push(halfWidth);
+    nodeMass.push(0);
+    nodeFirstChild.push(-1);
+    nodePoint.push(-1);
+    return node;
+  }
+
+  function addChildren(node: number) {
+    const childCount = 1 << dim;
+    const halfWidth = nodeHalfWidth[node] / 2;
+    const first = nodeHalfWidth.length;
+    const center: number[] = [];
+    for (let c = 0; c < childCount; c++) {
+      for (let d = 0; d < dim; d++) {
+        const sign = c & (1 << d) ? 1 : -1;
+        center[d] = nodeCenter[node * dim + d] + sign * halfWidth;
+      }
+      addNode(center, halfWidth);
+    }
+    nodeFirstChild[node] = first;
+  }
+
+  function childContaining(node: number, point: number) {
+    let c = 0;
+    for (let d = 0; d < dim; d++) {
+      if (Y[point * dim + d] > nodeCenter[node * dim + d]) c |= 1 << d;
+    }
+    return nodeFirstChild[node] + c;
+  }
+
+  function addMass(node: number, point: number) {
+    const mass = nodeMass[node];
+    for (let d = 0; d < dim; d++) {
+      const com = nodeCenterOfMass[node * dim + d];
+      nodeCenterOfMass[node * dim + d] =
+        (com * mass + Y[point * dim + d]) / (mass + 1);
+    }
+    nodeMass[node] = mass + 1;
+  }
+
+  function buildTree() {
+    nodeCenter = [];
+    nodeHalfWidth = [];
+    nodeMass = [];
+    nodeCenterOfMass = [];
+    nodeFirstChild = [];
+    nodePoint = [];
+
+    const min: number[] = [];
+    const max: number[] = [];
+    for (let d = 0; d < dim; d++) {
+      min[d] = Infinity;
+      max[d] = -Infinity;
+    }
+    for (let i = 0; i < n; i++) {
+      for (let d = 0; d < dim; d++) {
+        min[d] = Math.min(min[d], Y[i * dim + d]);
+        max[d] = Math.max(max[d], Y[i * dim + d]);
+      }
+    }
+    const center: number[] = [];
+    let halfWidth = 0;
+    for (let d = 0; d < dim; d++) {
+      center[d] = (min[d] + max[d]) / 2;
+      halfWidth = Math.max(halfWidth, (max[d] - min[d]) / 2);
+    }
+    addNode(center, halfWidth * 1.0001 + 1e-5);
+
+    for (let i = 0; i < n; i++) {
+      let node = 0;
+      for (let depth = 0; ; depth++) {
+        if (nodeFirstChild[node] === -1) {
+          if (nodeMass[node] === 0) {
+            nodePoint[node] = i;
+            addMass(node, i);
+            break;
+          }
+          if (depth >= MAX_TREE_DEPTH) {
+            // Coincident points stay together in a single leaf.
+            addMass(node, i);
+            break;
+          }
+          // Split the leaf, moving its point down into a child.
+          const existing = nodePoint[node];
+          addChildren(node);
+          const child = childContaining(node, existing);
+          nodePoint[child] = existing;
+          addMass(child, existing);
+          nodePoint[node] = -1;
+        }
+        addMass(node, i);
+        node = childContaining(node, i);
+      }
+    }
+  }
+
+  /**
+   * Accumulates the Barnes-Hut approximation of the repulsive force on a
+   * point into `force`, returning its contribution to the normalization.
+   */
+  function computeRepulsion(point: number, force: Float64Array) {
+    let sumQ = 0;
+    const stack = [0];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      let mass = nodeMass[node];
+      if (mass === 0) continue;
+      const isLeaf = nodeFirstChild[node] === -1;
+      if (isLeaf && nodePoint[node] === point) {
+        mass -= 1;
+        if (mass === 0) continue;
+      }
+
+      let dist2 = 0;
+      for (let d = 0; d < dim; d++) {
+        const diff = Y[point * dim + d] - nodeCenterOfMass[node * dim + d];
+        dist2 += diff * diff;
+      }
+      const width = 2 * nodeHalfWidth[node];
+      if (isLeaf || width * width < THETA * THETA * dist2) {
+        const q = 1 / (1 + dist2);
+        sumQ += mass * q;
+        const multiplier = mass * q * q;
+        for (let d = 0; d < dim; d++) {
+          force[d] +=
+            multiplier *
+            (Y[point * dim + d] - nodeCenterOfMass[node * dim + d]);
+        }
+      } else {
+        const first = nodeFirstChild[node];
+        for (let c = 0; c < 1 << dim; c++) {
+          stack.push(first + c);
+        }
+      }
+    }
+    return sumQ;
+  }
+
+  function step() {
+    const exaggeration =
+      iteration < EARLY_EXAGGERATION_ITERATIONS ? EARLY_EXAGGERATION : 1;
+    const momentum =
+      iteration < EARLY_EXAGGERATION_ITERATIONS
+        ? INITIAL_MOMENTUM
+        : FINAL_MOMENTUM;
+
+    buildTree();
+    const repulsion = new Float64Array(n * dim);
+    const force = new Float64Array(dim);
+    let sumQ = 0;
+    for (let i = 0; i < n; i++) {
+      force.fill(0);
+      sumQ += computeRepulsion(i, force);
+      repulsion.set(force, i * dim);
+    }
+
+    gradient.fill(0);
+    for (let i = 0; i < n; i++) {
+      for (let index = rowStarts[i]; index < rowStarts[i + 1]; index++) {
+        const j = columns[index];
+        let dist2 = 0;
+        for (let d = 0; d < dim; d++) {
+          const diff = Y[i * dim + d] - Y[j * dim + d];
+          dist2 += diff * diff;
+        }
+        const multiplier = (exaggeration * probabilities[index]) / (1 + dist2);
+        for (let d = 0; d < dim; d++) {
+          gradient[i * dim + d] +=
+            multiplier * (Y[i * dim + d] - Y[j * dim + d]);
+        }
+      }
+      for (let d = 0; d < dim; d++) {
+        gradient[i * dim + d] =
+          4 * (gradient[i * dim + d] - repulsion[i * dim + d] / sumQ);
+      }
+    }
+
+    const mean = new Float64Array(dim);
+    for (let i = 0; i < n * dim; i++) {
+      const sameSign = gradient[i] > 0 === velocity[i] > 0;
+      gains[i] = Math.max(sameSign ? gains[i] * 0.8 : gains[i] + 0.2, MIN_GAIN);
+      velocity[i] =
+        momentum * velocity[i] - learningRate * gains[i] * gradient[i];
+      Y[i] += velocity[i];
+      mean[i % dim] += Y[i];
+    }
+    // Keep the layout centered on the origin.
+    for (let i = 0; i < n * dim; i++) {
+      Y[i] -= mean[i % dim] / n;
+    }
+    iteration++;
+  }
+
+  function postUpdate() {
+    lastUpdate = Date.now();
+    const positions = new Float32Array(Y);
+    scope.postMessage({type: 'update', positions, iteration}, [
+      positions.buffer,
+    ]);
+  }
+
+  function run() {
+    timeout = null;
+    if (!running) return;
+    const start = Date.now();
+    while (Date.now() - start < FRAME_BUDGET_MS) {
+      step();
+    }
+    if (Date.now() - lastUpdate >= updateInterval) postUpdate();
+    timeout = setTimeout(run, 0);
+  }
+
+  function init(message: InitMessage) {
+    vectors = message.vectors;
+    inputDimensions = message.dimensions;
+    dim = message.outputDimensions;
+    perplexity = message.perplexity;
+    learningRate = message.learningRate;
+    updateInterval = message.updateInterval;
+    n = vectors.length / inputDimensions;
+    iteration = 0;
+
+    // Perplexity must be smaller than the number of points.
+    perplexity = Math.min(perplexity, Math.max((n - 1) / 3, 1));
+    k = 0;
+    computeProbabilities();
+
+    const random = makeRandom(message.seed);
+    Y = new Float64Array(n * dim);
+    for (let i = 0; i < n * dim; i++) {
+      Y[i] = (random() - 0.5) * 1e-4;
+    }
+    gains = new Float64Array(n * dim).fill(1);
+    velocity = new Float64Array(n * dim);
+    gradient = new Float64Array(n * dim);
+    postUpdate();
+  }
+
+  scope.onmessage = event => {
+    const message = event.data;
+    if (message.type === 'init') {
+      init(message);
+    } else if (message.type === 'resume') {
+      running = true;
+      if (timeout === null) run();
+    } else if (message.type === 'pause') {
+      running = false;
+      if (timeout !== null) clearTimeout(timeout);
+      timeout = null;
+      postUpdate();
+    } else if (message.type === 'step') {
+      for (let s = 0; s < message.steps; s++) {
+        step();
+      }
+      postUpdate();
+    } else if (message.type === 'setParams') {
+      if (message.learningRate !== undefined) {
+        learningRate = message.learningRate;
+      }
+      if (message.perplexity !== undefined) {
+        perplexity = Math.min(message.perplexity, Math.max((n - 1) / 3, 1));
+        computeProbabilities();
+      }
+    }
+  };
+}
@@ -22,6 +22,8 @@ export type Point3D = [number, number, number];
 export const enum InteractionMode {
   PAN = 'PAN',
   SELECT = 'SELECT',
+  LASSO = 'LASSO',
+  BRUSH = 'BRUSH',
 }
 
 export const enum RenderMode {
@@ -0,0 +1,45 @@
+/*
+@license
+Copyright 2019 Google LLC. All Rights Reserved.
+
+Licensed under the Apache License, Version 2.0 (the "License");
+you may not use this file except in compliance with the License.
+You may obtain a copy of the License at
+
+    http://www.apache.org/licenses/LICENSE-2.0
+
+Unless required by applicable law or agreed to in writing, software
+distributed under the License is distributed on an "AS IS" BASIS,
+WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+See the License for the specific language governing permissions and
+limitations under the License.
+==============================================================================*/
+import {decodeIdFromRgb, encodeIdToRgb, seededRandom} from './util';
+
+describe('encodeIdToRgb', () => {
+  it('round trips 24-bit ids through 8-bit channels', () => {
+    for (const id of [0, 1, 255, 256, 0x123456, 0xffffff]) {
+      const {r, g, b} = encodeIdToRgb(id);
+      const channels = [r, g, b].map(value => Math.round(value * 255));
+      expect(decodeIdFromRgb(channels[0], channels[1], channels[2])).toBe(id);
+    }
+  });
+
+  it('keeps only the low 24 bits', () => {
+    expect(encodeIdToRgb(0x1000001)).toEqual(encodeIdToRgb(1));
+  });
+});
+
+describe('seededRandom', () => {
+  it('repeats the same values in [0, 1) for a seed', () => {
+    const a = seededRandom(42);
+    const b = seededRandom(42);
+    for (let i = 0; i < 100; i++) {
+      const value = a();
+      expect(value).toBe(b());
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+    expect(seededRandom(43)()).not.toBe(seededRandom(42)());
+  });
+});
@@ -132,11 +132,14 @@ export function hasWebGLSupport(): boolean {
   }
 }
 
-/** Compute the extent [minimum, maximum] of an array of numbers. */
-export function extent(data: number[]) {
+/**
+ * Compute the extent [minimum, maximum] of an array of numbers. An offset and
+ * stride can be supplied to read a single component out of packed data.
+ */
+export function extent(data: ArrayLike<number>, offset = 0, stride = 1) {
   let minimum = Infinity;
   let maximum = -Infinity;
-  for (let i = 0; i < data.length; i++) {
+  for (let i = offset; i < data.length; i += stride) {
     const item = data[i];
     if (item < minimum) minimum = item;
     if (item > maximum) maximum = item;
@@ -166,6 +169,39 @@ export function scaleExponential(
   return percentDomain * rangeDifference + range[0];
 }
 
+/**
+ * Whether a point is inside a polygon, by counting the polygon's edges that a
+ * ray cast from the point crosses (the even-odd rule).
+ */
+export function isPointInPolygon(x: number, y: number, polygon: Point2D[]) {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/** The distance from a point to the closest point of a line segment. */
+export function distanceToSegment(
+  x: number,
+  y: number,
+  a: Point2D,
+  b: Point2D
+) {
+  const [ax, ay] = a;
+  const dx = b[0] - ax;
+  const dy = b[1] - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  // The position of the closest point along the segment, from 0 to 1.
+  const projection = ((x - ax) * dx + (y - ay) * dy) / lengthSquared;
+  const t = lengthSquared > 0 ? Math.min(Math.max(projection, 0), 1) : 0;
+  return Math.hypot(x - (ax + t * dx), y - (ay + t * dy));
+}
+
 export function packRgbIntoUint8Array(
   rgbArray: Uint8Array,
   labelIndex: number,
@@ -214,3 +250,18 @@ export function encodeIdToRgb(i: number): {r: number; g: number; b: number} {
 export function decodeIdFromRgb(r: number, g: number, b: number): number {
   return (r << 16) | (g << 8) | b;
 }
+
+/**
+ * Returns a deterministic pseudo-random number generator (mulberry32) that
+ * produces values in [0, 1), so that layouts are reproducible for a seed.
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}